@@ -1,1190 +1,9192 @@
 import {
 	App,
+	CachedMetadata,
+	Component,
+	Debouncer,
+	DropdownComponent,
 	Editor,
+	EditorPosition,
+	FuzzySuggestModal,
+	getAllTags,
+	ItemView,
+	Keymap,
+	MarkdownRenderer,
 	MarkdownView,
+	Menu,
+	MenuItem,
 	Modal,
 	Notice,
+	Platform,
 	Plugin,
 	PluginSettingTab,
 	Setting,
+	TFile,
+	TFolder,
+	WorkspaceLeaf,
+	apiVersion,
+	arrayBufferToBase64,
+	base64ToArrayBuffer,
+	debounce,
+	moment,
+	normalizePath,
 	requestUrl,
+	setIcon,
+	stringifyYaml,
 } from 'obsidian';
 
-// モバイルデバッグ用ログクラス
+// ログのレベル（設定したレベル以上を記録する）と分類
+type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+type LogCategory = 'general' | 'api' | 'ui' | 'usage' | 'index' | 'tools';
+
+const LOG_LEVEL_LABELS: Record<LogLevel, string> = {
+	'debug': 'Debug (everything)',
+	'info': 'Info',
+	'warn': 'Warnings',
+	'error': 'Errors only',
+};
+
+const LOG_LEVEL_ORDER: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+interface LogEntry {
+	time: string; // ISO date string
+	level: LogLevel;
+	category: LogCategory;
+	message: string;
+	data?: any; // 伏せ字済み
+}
+
+// APIリクエスト1件の記録（トレースビューアで表示する）
+interface ApiTrace {
+	id: number;
+	time: string; // ISO date string
+	provider: string;
+	url: string;
+	model: string;
+	stream: boolean;
+	status: number; // HTTPステータス（通信エラー・タイムアウト・キャンセルは0）
+	latency: number; // ms（ストリーミングはレスポンスヘッダーを受信するまで）
+	inputTokens: number | null;
+	outputTokens: number | null;
+	requestId: string; // x-request-id（プロバイダーへの問い合わせ用）
+	error: string;
+	requestBody: string; // 伏せ字済み
+	responseBody: string; // 伏せ字済み
+}
+
+const MAX_LOG_ENTRIES = 1000;
+const MAX_TRACES = 50;
+const LOG_FILE_NAME = 'chatgpt-debug';
+const LOG_FILE_COUNT = 3; // 現在のファイル + ローテーションした古いファイル
+const MAX_PENDING_LOG_LINES = 200; // これを超えたら待たずにファイルに書き込む
+
+// プロンプトの内容として扱うプロパティ（設定で伏せる）
+const PROMPT_CONTENT_KEYS = new Set([
+	'content', 'input', 'instructions', 'system', 'prompt', 'text', 'preview', 'args', 'output', 'output_text', 'arguments', 'delta',
+]);
+
+// 構造化したデバッグログとAPIリクエストのトレース
+// メモリには上限まで保持し、設定で有効な場合はローテーションするログファイルにも書き込む
 class MobileDebugLogger {
-	private logs: string[] = [];
+	private entries: LogEntry[] = [];
+	private traces: ApiTrace[] = [];
+	private nextTraceId = 1;
+	private pendingLines: string[] = []; // ファイルへの書き込み待ち
+	private flushLater: Debouncer<[], void>;
+	private flushing: Promise<void> = Promise.resolve(); // 書き込み中の処理（ローテーションが重ならないよう順番に実行）
 	private plugin: ChatGPTPlugin;
+	onTrace: (() => void) | null = null; // トレースビューアの更新
 
 	constructor(plugin: ChatGPTPlugin) {
 		this.plugin = plugin;
+		// ログが続いても書き込みが先送りされ続けないよう、タイマーは延長しない
+		this.flushLater = debounce(() => this.flush(), 2000, false);
 	}
 
-	log(message: string, data?: any) {
-		const timestamp = new Date().toISOString().substring(11, 19);
-		const logEntry = data
-			? `[${timestamp}] ${message}: ${JSON.stringify(data).substring(0, 100)}`
-			: `[${timestamp}] ${message}`;
-
-		this.logs.push(logEntry);
-		console.log(logEntry);
-
-		// 設定でデバッグモードが有効な場合はNoticeでも表示
-		if (this.plugin.settings?.debugMode) {
-			new Notice(logEntry, 3000);
-		}
+	debug(category: LogCategory, message: string, data?: any) {
+		this.write('debug', category, message, data);
 	}
 
-	async saveToFile() {
-		try {
-			const logContent = this.logs.join('\n');
-			const vault = (this.plugin as any).app.vault;
-			await vault.adapter.write('chatgpt_debug_logs.txt', logContent);
-			new Notice('✅ Debug log saved to chatgpt_debug_logs.txt', 5000);
-		} catch (error) {
-			new Notice(`❌ Failed to save log: ${error.message}`, 5000);
-		}
+	info(category: LogCategory, message: string, data?: any) {
+		this.write('info', category, message, data);
 	}
 
-	clear() {
-		this.logs = [];
-		new Notice('Debug log cleared');
+	warn(category: LogCategory, message: string, data?: any) {
+		this.write('warn', category, message, data);
 	}
 
-	getLogsCount() {
-		return this.logs.length;
+	error(category: LogCategory, message: string, data?: any) {
+		this.write('error', category, message, data);
 	}
-}
-
-interface UsageRecord {
-	date: string; // ISO date string
-	model: string;
-	promptTokens: number;
-	completionTokens: number;
-	totalTokens: number;
-	estimatedCost: number; // USD
-}
 
-interface ChatGPTSettings {
-	apiKey: string;
-	model: string;
-	temperature: number;
-	maxTokens: number;
-	systemPrompt: string;
-	responseFormat: string;
-	debugMode: boolean;
-	useWebSearch: boolean;
-	usageHistory: UsageRecord[];
-}
+	private write(level: LogLevel, category: LogCategory, message: string, data?: any) {
+		const settings = this.plugin.settings;
+		const minLevel = settings?.logLevel || 'info';
+		if (LOG_LEVEL_ORDER.indexOf(level) < LOG_LEVEL_ORDER.indexOf(minLevel)) return;
 
-const DEFAULT_SETTINGS: ChatGPTSettings = {
-	apiKey: '',
-	model: 'gpt-4o',
-	temperature: 0.7,
-	maxTokens: 2000,
-	systemPrompt: 'You are a helpful assistant. Answer questions clearly and concisely.',
-	responseFormat: '**ChatGPT:**\n{response}',
-	debugMode: false,
-	useWebSearch: false,
-	usageHistory: [],
-};
+		const entry: LogEntry = { time: new Date().toISOString(), level, category, message };
+		if (data !== undefined) entry.data = this.redact(data);
+		this.entries.push(entry);
+		if (this.entries.length > MAX_LOG_ENTRIES) this.entries.shift();
 
-export default class ChatGPTPlugin extends Plugin {
-	settings: ChatGPTSettings;
-	floatingButton: HTMLElement | null = null;
-	selectedTextCache: string = ''; // テキスト選択のキャッシュ（モバイル対応）
-	debugLogger: MobileDebugLogger;
+		const line = this.formatEntry(entry);
+		const log = level === 'error' ? console.error : level === 'warn' ? console.warn : console.log;
+		log(line);
 
-	async onload() {
-		this.debugLogger = new MobileDebugLogger(this);
-		this.debugLogger.log('🚀 ChatGPT Plugin loaded');
-		await this.loadSettings();
+		// 設定でデバッグモードが有効な場合はNoticeでも表示
+		if (settings?.debugMode) {
+			new Notice(line.substring(0, 200), 3000);
+		}
 
-		// リボンアイコンを追加（カスタムプロンプト版）
-		this.addRibbonIcon('message-square', 'Ask ChatGPT (Custom Prompt)', (evt: MouseEvent) => {
-			const markdownView = this.app.workspace.getActiveViewOfType(MarkdownView);
-			if (markdownView) {
-				const editor = markdownView.editor;
-				this.askChatGPTCustom(editor);
+		if (settings?.logToFile) {
+			this.pendingLines.push(line);
+			if (this.pendingLines.length >= MAX_PENDING_LOG_LINES) {
+				this.flush();
 			} else {
-				new Notice('Please open a note first');
+				this.flushLater();
 			}
-		});
+		}
+	}
 
-		// テキスト選択時のフローティングボタン（モバイル対応）
-		this.registerDomEvent(document, 'selectionchange', () => {
-			this.handleSelectionChange();
-		});
+	formatEntry(entry: LogEntry): string {
+		const data = entry.data !== undefined ? ` ${JSON.stringify(entry.data)}` : '';
+		return `${entry.time} ${entry.level.toUpperCase().padEnd(5)} [${entry.category}] ${entry.message}${data}`;
+	}
 
-		// テキスト選択時のコンテキストメニューに追加
-		this.registerEvent(
-			this.app.workspace.on('editor-menu', (menu, editor, view) => {
-				const selectedText = editor.getSelection();
-				if (selectedText && selectedText.trim()) {
-					menu.addItem((item) => {
-						item
-							.setTitle('✨ Ask ChatGPT')
-							.setIcon('message-square')
-							.onClick(async () => {
-								this.askChatGPT(editor);
-							});
-					});
+	// APIキーは常に、プロンプトの内容は設定に応じて伏せる
+	// 画像・音声のデータや埋め込みのベクトルは長さだけ残す
+	redact(value: any, key: string = ''): any {
+		const redactPrompts = this.plugin.settings?.redactPrompts ?? true;
+		if (typeof value === 'string') {
+			if (redactPrompts && PROMPT_CONTENT_KEYS.has(key)) return `[${value.length} chars]`;
+			if (/^data:[^;]+;base64,/.test(value) || ((key === 'data' || key === 'b64_json') && value.length > 200)) {
+				return `[binary ${Math.round(value.length * 3 / 4 / 1024)} KB]`;
+			}
+			const text = this.plugin.redactSecrets(value);
+			return text.length > 4000 ? `${text.substring(0, 4000)}…(${text.length} chars)` : text;
+		}
+		if (Array.isArray(value)) {
+			if (value.length > 8 && value.every((item) => typeof item === 'number')) return `[${value.length} numbers]`;
+			return value.map((item) => this.redact(item, key));
+		}
+		if (value instanceof ArrayBuffer) return `[binary ${Math.round(value.byteLength / 1024)} KB]`;
+		if (value instanceof Error) return this.plugin.redactSecrets(value.message);
+		if (value && typeof value === 'object') {
+			return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, this.redact(v, k)]));
+		}
+		return value;
+	}
 
-					menu.addItem((item) => {
-						item
-							.setTitle('💬 Ask ChatGPT (Custom)')
-							.setIcon('edit')
-							.onClick(async () => {
-								this.askChatGPTCustom(editor);
-							});
-					});
-				}
-			})
-		);
+	// リクエストの開始時に作り、完了時にfinishTraceで結果を記録する
+	startTrace(provider: ProviderConfig, url: string, body: any, stream: boolean): ApiTrace {
+		const trace: ApiTrace = {
+			id: this.nextTraceId++,
+			time: new Date().toISOString(),
+			provider: provider.name,
+			url,
+			model: body instanceof ArrayBuffer ? '' : String(body?.model || ''),
+			stream,
+			status: 0,
+			latency: 0,
+			inputTokens: null,
+			outputTokens: null,
+			requestId: '',
+			error: '',
+			requestBody: JSON.stringify(this.redact(body), null, 2),
+			responseBody: '',
+		};
+		this.traces.push(trace);
+		if (this.traces.length > MAX_TRACES) this.traces.shift();
+		return trace;
+	}
 
-		// エディタメニューにコマンド追加（モバイル対応）
-		this.addCommand({
-			id: 'ask-chatgpt',
-			name: 'Ask ChatGPT about selected text',
-			checkCallback: (checking: boolean) => {
-				const markdownView = this.app.workspace.getActiveViewOfType(MarkdownView);
-				if (markdownView) {
-					if (!checking) {
-						const editor = markdownView.editor;
-						this.askChatGPT(editor);
-					}
-					return true;
-				}
-				return false;
-			},
-		});
+	finishTrace(trace: ApiTrace, result: { status: number; started: number; headers?: Record<string, string>; data?: any; error?: string }) {
+		trace.status = result.status;
+		trace.latency = Math.round(performance.now() - result.started);
+		const header = (name: string) =>
+			Object.entries(result.headers || {}).find(([key]) => key.toLowerCase() === name)?.[1] || '';
+		trace.requestId = header('x-request-id') || header('request-id');
+		trace.error = result.error ? this.plugin.redactSecrets(result.error) : '';
+		if (result.data !== undefined) {
+			trace.responseBody = JSON.stringify(this.redact(result.data), null, 2);
+			const usage = result.data?.usage;
+			if (usage) {
+				trace.inputTokens = usage.input_tokens ?? usage.prompt_tokens ?? null;
+				trace.outputTokens = usage.output_tokens ?? usage.completion_tokens ?? null;
+			}
+		}
 
-		// カスタムプロンプトで質問（モバイル対応）
-		this.addCommand({
-			id: 'ask-chatgpt-custom',
-			name: 'Ask ChatGPT with custom prompt',
-			checkCallback: (checking: boolean) => {
-				const markdownView = this.app.workspace.getActiveViewOfType(MarkdownView);
-				if (markdownView) {
-					if (!checking) {
-						const editor = markdownView.editor;
-						this.askChatGPTCustom(editor);
-					}
-					return true;
-				}
-				return false;
-			},
-		});
+		const summary = {
+			model: trace.model,
+			status: trace.status,
+			latency: trace.latency,
+			requestId: trace.requestId || undefined,
+			error: trace.error || undefined,
+		};
+		if (trace.error) {
+			this.warn('api', `${trace.provider} request failed`, summary);
+		} else {
+			this.info('api', `${trace.provider} request`, summary);
+		}
+		this.onTrace?.();
+	}
 
-		// 設定タブ追加
-		this.addSettingTab(new ChatGPTSettingTab(this.app, this));
+	// ストリーミングの完了時に受信したテキストと使用量を記録する
+	completeStreamTrace(trace: ApiTrace, text: string, usage: TokenUsage | null) {
+		trace.responseBody = JSON.stringify(this.redact({ output_text: text }), null, 2);
+		if (usage) {
+			trace.inputTokens = usage.inputTokens;
+			trace.outputTokens = usage.outputTokens;
+		}
+		this.onTrace?.();
 	}
 
-	showFloatingButton() {
-		if (this.floatingButton) return;
+	getTraces(): ApiTrace[] {
+		return [...this.traces];
+	}
 
-		this.debugLogger.log('💬 Creating floating button');
+	getEntries(): LogEntry[] {
+		return [...this.entries];
+	}
 
-		this.floatingButton = document.body.createDiv('chatgpt-floating-button');
-		this.floatingButton.innerHTML = '💬';
-		this.floatingButton.setAttribute('aria-label', 'Ask ChatGPT');
+	// 書き込み待ちのログをファイルに書き込む（前の書き込みが終わってから実行する）
+	flush(): Promise<void> {
+		this.flushing = this.flushing.then(() => this.writePending());
+		return this.flushing;
+	}
 
-		this.floatingButton.addEventListener('click', async () => {
-			// キャッシュをローカル変数にコピー（確実に取得）
-			const cachedText = this.selectedTextCache;
-			this.debugLogger.log('🖱️ Floating button clicked', {
-				cacheLength: cachedText.length,
-				preview: cachedText.substring(0, 50)
-			});
+	// ログファイルに追記し、上限を超えたら古いファイルに回す（chatgpt-debug.log → chatgpt-debug.1.log → ...）
+	private async writePending() {
+		if (this.pendingLines.length === 0) return;
+		const lines = this.pendingLines.splice(0);
+		const adapter = this.plugin.app.vault.adapter;
+		const folder = normalizePath(this.plugin.settings.logFolder || 'ChatGPT Logs');
+		const path = `${folder}/${LOG_FILE_NAME}.log`;
+		const text = `${lines.join('\n')}\n`;
 
-			const markdownView = this.app.workspace.getActiveViewOfType(MarkdownView);
-			if (!markdownView) {
-				new Notice('Please open a note first');
-				return;
+		try {
+			if (!(await adapter.exists(folder))) {
+				await adapter.mkdir(folder);
 			}
-
-			if (!cachedText || !cachedText.trim()) {
-				new Notice('📝 Please select text first');
-				return;
+			const stat = await adapter.stat(path);
+			if (stat && stat.size + text.length > this.plugin.settings.logFileMaxKB * 1024) {
+				for (let i = LOG_FILE_COUNT - 1; i >= 1; i--) {
+					const from = i === 1 ? path : `${folder}/${LOG_FILE_NAME}.${i - 1}.log`;
+					const to = `${folder}/${LOG_FILE_NAME}.${i}.log`;
+					if (!(await adapter.exists(from))) continue;
+					if (await adapter.exists(to)) await adapter.remove(to);
+					await adapter.rename(from, to);
+				}
 			}
-
-			// キャッシュから取得した選択テキストでモーダルを開く
-			const editor = markdownView.editor;
-			await this.askChatGPTCustom(editor, cachedText);
-
-			// 使用後にキャッシュをクリア
-			this.selectedTextCache = '';
-		});
+			await adapter.append(path, text);
+		} catch (error) {
+			console.error('ChatGPT Error: failed to write the log file', error);
+		}
 	}
 
-	handleSelectionChange() {
-		const selection = window.getSelection();
-		const markdownView = this.app.workspace.getActiveViewOfType(MarkdownView);
-
-		this.debugLogger.log('📝 Selection changed', {
-			length: selection?.toString().length || 0
-		});
+	// 不具合の報告用に、環境・ログ・リクエストの記録を1つのノートにまとめる
+	async exportReport(): Promise<TFile | null> {
+		const { app, manifest, settings } = this.plugin;
+		const provider = this.plugin.getActiveProvider();
+		const environment = {
+			plugin: manifest.version,
+			obsidian: apiVersion,
+			platform: Platform.isMobile ? (Platform.isIosApp ? 'iOS' : 'Android') : (Platform.isMacOS ? 'macOS' : Platform.isWin ? 'Windows' : 'Linux'),
+			provider: provider.name,
+			apiFlavour: provider.apiFlavour,
+			model: settings.model,
+			streamResponses: settings.streamResponses,
+			webSearch: settings.useWebSearch,
+			logLevel: settings.logLevel,
+			promptsRedacted: settings.redactPrompts,
+		};
+		const traces = this.traces.map((trace) => [
+			`### #${trace.id} ${trace.time} ${trace.status || 'ERR'} ${trace.model} (${trace.latency} ms)`,
+			'',
+			`- Provider: ${trace.provider} (${trace.url})`,
+			`- Tokens: ${trace.inputTokens ?? '-'} in / ${trace.outputTokens ?? '-'} out`,
+			trace.requestId ? `- Request ID: ${trace.requestId}` : '',
+			trace.error ? `- Error: ${trace.error}` : '',
+			'',
+			'```json',
+			trace.requestBody,
+			'```',
+			'',
+			'```json',
+			trace.responseBody || '(no body)',
+			'```',
+		].filter((line, i, lines) => line !== '' || lines[i - 1] !== '').join('\n'));
+
+		const content = [
+			'# ChatGPT plugin debug report',
+			'',
+			'API keys are removed from this report. Check it for personal content before sharing.',
+			'',
+			'## Environment',
+			'',
+			'```json',
+			JSON.stringify(environment, null, 2),
+			'```',
+			'',
+			'## Log',
+			'',
+			'```',
+			this.entries.map((entry) => this.formatEntry(entry)).join('\n'),
+			'```',
+			'',
+			'## Requests',
+			'',
+			traces.join('\n\n') || '(none)',
+			'',
+		].join('\n');
 
-		if (selection && selection.toString().trim() && markdownView) {
-			// キャッシュに保存
-			this.selectedTextCache = selection.toString().trim();
-			this.debugLogger.log('💾 Text cached', {
-				cacheLength: this.selectedTextCache.length
-			});
-			this.showFloatingButton();
-		} else {
-			// 選択解除時はキャッシュもクリア
-			this.selectedTextCache = '';
-			this.hideFloatingButton();
+		try {
+			const folder = normalizePath(settings.logFolder || 'ChatGPT Logs');
+			if (!app.vault.getAbstractFileByPath(folder)) {
+				await app.vault.createFolder(folder);
+			}
+			const file = await app.vault.create(`${folder}/Debug report ${moment().format('YYYY-MM-DD HHmmss')}.md`, content);
+			new Notice(`✅ Debug report saved to ${file.path}`, 5000);
+			return file;
+		} catch (error) {
+			new Notice(`❌ Failed to save the debug report: ${error.message}`, 5000);
+			return null;
 		}
 	}
 
-	hideFloatingButton() {
-		if (this.floatingButton) {
-			this.floatingButton.remove();
-			this.floatingButton = null;
-		}
+	clear() {
+		this.entries = [];
+		this.traces = [];
+		this.onTrace?.();
+		new Notice('Debug log cleared');
 	}
+}
 
-	async askChatGPT(editor: Editor) {
-		// リーディングモードかチェックして自動切り替え
-		const markdownView = this.app.workspace.getActiveViewOfType(MarkdownView);
-		if (!markdownView) {
-			new Notice('Please open a note first');
-			return;
-		}
+// プロバイダー設定（OpenAI互換 / Azure OpenAI / Anthropic / Ollama等）
+type ApiFlavour = 'responses' | 'chat-completions' | 'messages';
+type AuthScheme = 'bearer' | 'api-key' | 'x-api-key' | 'none';
+
+interface ProviderConfig {
+	id: string;
+	name: string;
+	endpoint: string; // APIエンドポイントの完全なURL
+	authScheme: AuthScheme;
+	apiKeyId: string; // 使う名前付きAPIキーのID（空の場合はキーなし）
+	apiFlavour: ApiFlavour;
+	models: string[];
+}
 
-		const state = markdownView.getState();
-		const wasInReadingMode = state.mode === 'preview';
+// プロバイダー追加時のプリセット
+const PROVIDER_PRESETS: { [key: string]: Omit<ProviderConfig, 'id' | 'apiKeyId'> } = {
+	'openai': {
+		name: 'OpenAI',
+		endpoint: 'https://api.openai.com/v1/responses',
+		authScheme: 'bearer',
+		apiFlavour: 'responses',
+		models: ['gpt-5.2', 'gpt-5.1', 'gpt-5', 'gpt-5-mini', 'gpt-5-nano', 'gpt-4o', 'gpt-4o-mini', 'gpt-4-turbo', 'gpt-4', 'gpt-3.5-turbo'],
+	},
+	'azure': {
+		name: 'Azure OpenAI',
+		endpoint: 'https://YOUR-RESOURCE.openai.azure.com/openai/v1/responses',
+		authScheme: 'api-key',
+		apiFlavour: 'responses',
+		models: ['gpt-4o', 'gpt-4o-mini'],
+	},
+	'anthropic': {
+		name: 'Anthropic',
+		endpoint: 'https://api.anthropic.com/v1/messages',
+		authScheme: 'x-api-key',
+		apiFlavour: 'messages',
+		models: ['claude-sonnet-4-5', 'claude-haiku-4-5', 'claude-opus-4-1'],
+	},
+	'ollama': {
+		name: 'Ollama (local)',
+		endpoint: 'http://localhost:11434/v1/chat/completions',
+		authScheme: 'none',
+		apiFlavour: 'chat-completions',
+		models: ['llama3.1', 'qwen2.5'],
+	},
+	'custom': {
+		name: 'OpenAI-compatible (vLLM etc.)',
+		endpoint: 'http://localhost:8000/v1/chat/completions',
+		authScheme: 'bearer',
+		apiFlavour: 'chat-completions',
+		models: [],
+	},
+};
 
-		// 編集モードに切り替え
-		if (wasInReadingMode) {
-			await markdownView.setState({ ...state, mode: 'source' }, { history: false });
-			// モード切り替えを待つ
-			await new Promise(resolve => setTimeout(resolve, 100));
-		}
+// モデル選択ドロップダウンの表示名（未登録のモデルはIDをそのまま表示）
+const MODEL_LABELS: { [model: string]: string } = {
+	'gpt-5.2': 'GPT-5.2 (Latest, Most Capable, $1.75/1M in)',
+	'gpt-5.1': 'GPT-5.1 (Balanced)',
+	'gpt-5': 'GPT-5 (Original)',
+	'gpt-5-mini': 'GPT-5 Mini (Fast, $0.25/1M in)',
+	'gpt-5-nano': 'GPT-5 Nano (Fastest, Cheapest)',
+	'gpt-4o': 'GPT-4o',
+	'gpt-4o-mini': 'GPT-4o Mini',
+	'gpt-4-turbo': 'GPT-4 Turbo',
+	'gpt-4': 'GPT-4',
+	'gpt-3.5-turbo': 'GPT-3.5 Turbo',
+};
 
-		let selectedText = editor.getSelection();
+function createProviderConfig(presetKey: string, apiKeyId: string = ''): ProviderConfig {
+	const preset = PROVIDER_PRESETS[presetKey] || PROVIDER_PRESETS['custom'];
+	return {
+		...preset,
+		models: [...preset.models],
+		id: presetKey === 'openai' ? 'openai' : `${presetKey}-${Date.now().toString(36)}`,
+		apiKeyId,
+	};
+}
 
-		// モバイルで選択が解除される問題に対応：クリップボードから取得
-		if (!selectedText || selectedText.trim() === '') {
-			try {
-				selectedText = await navigator.clipboard.readText();
-				if (selectedText && selectedText.trim()) {
-					new Notice('Using text from clipboard');
-				} else {
-					new Notice('Please select text or copy it to clipboard first');
-					return;
-				}
-			} catch (e) {
-				new Notice('Please select text first');
-				return;
-			}
-		}
+// 名前付きのAPIキー（個人用・チーム用等を登録し、プロバイダーごとに選ぶ）
+interface ApiKeyEntry {
+	id: string;
+	name: string;
+	key: string; // 端末内に保存する場合は空（data.jsonには書かない）
+	deviceOnly: boolean; // この端末のlocalStorageに保存し、同期しない
+}
 
-		if (!this.settings.apiKey) {
-			new Notice('Please set your OpenAI API key in settings');
-			return;
-		}
+// ログ・エラーメッセージに出てはいけないAPIキーの形式（登録済みのキーは値そのもので伏せる）
+const API_KEY_PATTERNS = [/\bsk-[A-Za-z0-9_-]{16,}/g, /\bBearer\s+[A-Za-z0-9._~+\/-]{16,}=*/g];
+
+function redactSecrets(text: string, secrets: string[]): string {
+	let redacted = text;
+	secrets.filter((secret) => secret.length >= 8).forEach((secret) => {
+		redacted = redacted.split(secret).join('[REDACTED]');
+	});
+	API_KEY_PATTERNS.forEach((pattern) => {
+		redacted = redacted.replace(pattern, '[REDACTED]');
+	});
+	return redacted;
+}
 
-		try {
-			new Notice('Asking ChatGPT...');
-			const response = await this.callOpenAI(selectedText);
+// 認証方式に応じたHTTPヘッダー
+function buildProviderHeaders(provider: ProviderConfig, apiKey: string): Record<string, string> {
+	const headers: Record<string, string> = {
+		'Content-Type': 'application/json',
+	};
 
-			// 回答を整形して挿入
-			const formattedResponse = this.settings.responseFormat.replace(
-				'{response}',
-				response
-			);
+	switch (provider.authScheme) {
+		case 'bearer':
+			headers['Authorization'] = `Bearer ${apiKey}`;
+			break;
+		case 'api-key':
+			headers['api-key'] = apiKey;
+			break;
+		case 'x-api-key':
+			headers['x-api-key'] = apiKey;
+			break;
+	}
 
-			// ドキュメントの最後に質問と回答を挿入
-			const lastLine = editor.lastLine();
-			const lastLineLength = editor.getLine(lastLine).length;
-			const insertText = `\n\n---\n\n**Question:**\n${selectedText}\n\n${formattedResponse}\n`;
+	if (provider.apiFlavour === 'messages') {
+		headers['anthropic-version'] = '2023-06-01';
+		// ストリーミング時はfetch（ブラウザ扱い）で送信するため必要
+		headers['anthropic-dangerous-direct-browser-access'] = 'true';
+	}
 
-			editor.replaceRange(
-				insertText,
-				{ line: lastLine, ch: lastLineLength }
-			);
+	return headers;
+}
 
-			// 挿入した位置までスクロール
-			const newLastLine = editor.lastLine();
-			editor.setCursor({ line: newLastLine, ch: 0 });
+// APIのエラー（ステータスとエラー種別から分かりやすいメッセージに変換済み）
+class ApiRequestError extends Error {
+	status: number; // 通信エラー・タイムアウトの場合は0
+	retryable: boolean;
+	retryAfter: number | null; // Retry-Afterヘッダーの秒数
+
+	constructor(message: string, status: number, retryable: boolean, retryAfter: number | null = null) {
+		super(message);
+		this.name = 'ApiRequestError';
+		this.status = status;
+		this.retryable = retryable;
+		this.retryAfter = retryAfter;
+	}
+}
 
-			new Notice('Response inserted!');
-		} catch (error) {
-			new Notice(`Error: ${error.message}`);
-			console.error('ChatGPT Error:', error);
-		} finally {
-			// リーディングモードに戻す
-			if (wasInReadingMode) {
-				await new Promise(resolve => setTimeout(resolve, 500));
-				await markdownView.setState({ ...state, mode: 'preview' }, { history: false });
-			}
-		}
+// エラーレスポンスをApiRequestErrorに変換
+// OpenAI形式 {error: {type, code, message}} とAnthropic形式 {type: 'error', error: {type, message}} に対応
+function toApiRequestError(
+	status: number,
+	data: any,
+	headers: Record<string, string>,
+	provider: ProviderConfig,
+	model?: string
+): ApiRequestError {
+	const error = data?.error || {};
+	const code = String(error.code || error.type || '');
+	const message: string = error.message || (typeof data?.error === 'string' ? data.error : '');
+	const retryAfter = parseRetryAfter(headers);
+
+	if (status === 401 || code === 'invalid_api_key' || code === 'authentication_error') {
+		return new ApiRequestError(`Invalid API key for ${provider.name}. Check the key in settings.`, status, false);
+	}
+	if (code === 'insufficient_quota' || code === 'billing_hard_limit_reached') {
+		return new ApiRequestError(`${provider.name} quota exceeded. Check your plan and billing details.`, status, false);
+	}
+	if (code === 'context_length_exceeded' || /context (length|window)|maximum context|prompt is too long|too many tokens/i.test(message)) {
+		return new ApiRequestError(
+			'The request is too long for this model\'s context window. Reduce the note context or start a new chat.',
+			status,
+			false
+		);
+	}
+	if (code === 'model_not_found' || code === 'not_found_error' || (status === 404 && /model/i.test(message))) {
+		return new ApiRequestError(
+			`Model "${model || ''}" was not found on ${provider.name}. Choose another model in settings.`,
+			status,
+			false
+		);
+	}
+	if (status === 429 || code === 'rate_limit_error') {
+		return new ApiRequestError(`Rate limited by ${provider.name}. Please wait a moment and try again.`, status, true, retryAfter);
+	}
+	if (status === 408 || status === 409 || status >= 500 || code === 'overloaded_error') {
+		return new ApiRequestError(
+			`${provider.name} is temporarily unavailable (${status})${message ? `: ${message}` : ''}`,
+			status,
+			true,
+			retryAfter
+		);
 	}
 
-	async askChatGPTCustom(editor: Editor, selectedText?: string) {
-		// リーディングモードかチェックして自動切り替え
-		const markdownView = this.app.workspace.getActiveViewOfType(MarkdownView);
-		if (!markdownView) {
-			new Notice('Please open a note first');
-			return;
-		}
+	return new ApiRequestError(message || `${provider.name} API Error (${status})`, status, false);
+}
 
-		const state = markdownView.getState();
-		const wasInReadingMode = state.mode === 'preview';
+// これより長いRetry-After（秒）は待たずに失敗にする
+const MAX_RETRY_AFTER = 60;
 
-		// 編集モードに切り替え
-		if (wasInReadingMode) {
-			await markdownView.setState({ ...state, mode: 'source' }, { history: false });
-			// モード切り替えを待つ
-			await new Promise(resolve => setTimeout(resolve, 100));
-		}
+// Retry-After（秒またはHTTP日付）とretry-after-msを秒に変換
+function parseRetryAfter(headers: Record<string, string>): number | null {
+	const header = (name: string) => {
+		const key = Object.keys(headers).find((k) => k.toLowerCase() === name);
+		return key ? headers[key] : undefined;
+	};
 
-		// selectedTextが渡されていない場合はeditorから取得
-		if (!selectedText) {
-			selectedText = editor.getSelection();
+	const ms = header('retry-after-ms');
+	if (ms && !isNaN(Number(ms))) return Number(ms) / 1000;
+
+	const value = header('retry-after');
+	if (!value) return null;
+	if (!isNaN(Number(value))) return Number(value);
+
+	const date = Date.parse(value);
+	return isNaN(date) ? null : Math.max(0, (date - Date.now()) / 1000);
+}
+
+// 中断可能な待機
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+	return new Promise((resolve, reject) => {
+		const timer = window.setTimeout(() => {
+			signal?.removeEventListener('abort', onAbort);
+			resolve();
+		}, ms);
+		const onAbort = () => {
+			window.clearTimeout(timer);
+			reject(new Error('Request cancelled'));
+		};
+		signal?.addEventListener('abort', onAbort, { once: true });
+	});
+}
+
+// Web検索の出典（startからendの範囲が回答内の引用箇所）
+interface Citation {
+	url: string;
+	title: string;
+	start?: number;
+	end: number;
+}
+
+// 引用箇所を脚注[^n]に置き換え、末尾に出典リストを付ける（同じURLは同じ番号）
+function addCitationFootnotes(text: string, citations: Citation[]): string {
+	if (citations.length === 0) return text;
+
+	const numbers = new Map<string, number>();
+	const sources: Citation[] = [];
+	citations.forEach((citation) => {
+		if (!numbers.has(citation.url)) {
+			numbers.set(citation.url, numbers.size + 1);
+			sources.push(citation);
+		}
+	});
+
+	// 後ろから置き換えて、前の引用の位置がずれないようにする
+	const sorted = [...citations].sort((a, b) => b.end - a.end);
+	let result = text;
+	let limit = text.length;
+	let previous: Citation | null = null;
+	sorted.forEach((citation) => {
+		if (previous && previous.url === citation.url && previous.end === citation.end) return;
+		previous = citation;
+
+		const marker = `[^${numbers.get(citation.url)}]`;
+		const start = citation.start;
+		if (start !== undefined && start >= 0 && start < citation.end && citation.end <= limit) {
+			// 本文中のインラインリンクを脚注に置き換える
+			result = result.slice(0, start) + marker + result.slice(citation.end);
+			limit = start;
+		} else {
+			const position = Math.max(0, Math.min(citation.end, limit));
+			result = result.slice(0, position) + marker + result.slice(position);
+			limit = position;
 		}
+	});
 
-		// モバイルで選択が解除される問題に対応：クリップボードから取得
-		if (!selectedText || selectedText.trim() === '') {
-			try {
-				selectedText = await navigator.clipboard.readText();
-				if (selectedText && selectedText.trim()) {
-					new Notice('Using text from clipboard');
-				} else {
-					new Notice('Please select text or copy it to clipboard first');
-					return;
-				}
-			} catch (e) {
-				new Notice('Please select text first');
-				return;
-			}
+	const list = sources
+		.map((source, i) => `[^${i + 1}]: [${(source.title || source.url).replace(/[\[\]]/g, '')}](${source.url})`)
+		.join('\n');
+	return `${result.trimEnd()}\n\n**Sources:**\n${list}`;
+}
+
+// 脚注番号をoffsetだけずらす（ノート内の既存の脚注と重ならないように）
+function renumberFootnotes(text: string, offset: number): string {
+	if (offset === 0) return text;
+	return text.replace(/\[\^(\d+)\]/g, (match, n: string) => `[^${Number(n) + offset}]`);
+}
+
+// テキスト内で使われている最大の脚注番号
+function maxFootnoteNumber(text: string): number {
+	let max = 0;
+	const pattern = /\[\^(\d+)\]/g;
+	let match: RegExpExecArray | null;
+	while ((match = pattern.exec(text)) !== null) {
+		max = Math.max(max, Number(match[1]));
+	}
+	return max;
+}
+
+interface TokenUsage {
+	inputTokens: number;
+	outputTokens: number;
+	cachedTokens?: number; // inputTokensのうちキャッシュから読み込まれた分
+}
+
+// 画像の添付（APIにはbase64で送る）
+interface ImageAttachment {
+	name: string;
+	mimeType: string;
+	data: string; // base64
+	width: number; // 不明な場合は0
+	height: number;
+}
+
+// APIに送るメッセージ（画像はユーザーメッセージに添付する）
+interface ApiMessage {
+	role: string;
+	content: string;
+	images?: ImageAttachment[];
+	items?: any[]; // Responses APIにそのまま渡す入力アイテム（ツール呼び出しとその結果）
+}
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+	'png': 'image/png',
+	'jpg': 'image/jpeg',
+	'jpeg': 'image/jpeg',
+	'gif': 'image/gif',
+	'webp': 'image/webp',
+};
+
+function toDataUrl(image: ImageAttachment): string {
+	return `data:${image.mimeType};base64,${image.data}`;
+}
+
+// 1回のリクエストで送る画像の上限（APIの制限とコストの目安）
+const MAX_IMAGES_PER_REQUEST = 10;
+const MAX_IMAGE_BYTES = 20 * 1024 * 1024;
+
+// 画像を送れるモデルか（モデル名から判定）
+function modelSupportsVision(model: string): boolean {
+	return /^(gpt-4o|chatgpt-4o|gpt-4\.1|gpt-4-turbo|gpt-5|o1|o3|o4|claude-)|vision|llava|-vl\b/i.test(model);
+}
+
+// 画像の入力トークンの概算（OpenAIの計算方法: 2048pxに収めて短辺を768pxにし、512pxのタイルごとに170 + 基本85）
+function estimateImageTokens(image: ImageAttachment): number {
+	if (!image.width || !image.height) return 765; // サイズが不明な場合は1024x1024相当
+	let width = image.width;
+	let height = image.height;
+	const fit = Math.min(1, 2048 / Math.max(width, height));
+	width *= fit;
+	height *= fit;
+	const shrink = Math.min(1, 768 / Math.min(width, height));
+	width *= shrink;
+	height *= shrink;
+	return 85 + 170 * Math.ceil(width / 512) * Math.ceil(height / 512);
+}
+
+// 画像データを添付用に変換（縦横のサイズはトークンの見積もりに使う）
+async function readImageAttachment(name: string, mimeType: string, buffer: ArrayBuffer): Promise<ImageAttachment> {
+	let width = 0;
+	let height = 0;
+	try {
+		const bitmap = await createImageBitmap(new Blob([buffer], { type: mimeType }));
+		width = bitmap.width;
+		height = bitmap.height;
+		bitmap.close();
+	} catch (e) {
+		// サイズが取れない形式でも送信はできる
+	}
+	return { name, mimeType, data: arrayBufferToBase64(buffer), width, height };
+}
+
+// 文字起こしに対応する音声ファイル
+const AUDIO_MIME_TYPES: Record<string, string> = {
+	'm4a': 'audio/mp4',
+	'mp3': 'audio/mpeg',
+	'webm': 'audio/webm',
+	'wav': 'audio/wav',
+	'ogg': 'audio/ogg',
+};
+
+// 文字起こしAPIの上限（25MB）に収まるよう、長い音声は10分ごとに分割する
+const TRANSCRIPTION_MAX_BYTES = 24 * 1024 * 1024;
+const TRANSCRIPTION_CHUNK_SECONDS = 600;
+const TRANSCRIPTION_SAMPLE_RATE = 16000;
+
+interface AudioChunk {
+	name: string;
+	mimeType: string;
+	data: ArrayBuffer;
+}
+
+// 長い音声は16kHzモノラルにデコードして一定の長さのWAVに分割する
+// 短い音声やデコードできない形式は元のファイルをそのまま送る
+async function splitAudio(name: string, mimeType: string, buffer: ArrayBuffer): Promise<AudioChunk[]> {
+	let audio: AudioBuffer | null = null;
+	try {
+		// decodeAudioDataは渡したバッファを使えなくするのでコピーを渡す
+		const context = new OfflineAudioContext(1, 1, TRANSCRIPTION_SAMPLE_RATE);
+		audio = await context.decodeAudioData(buffer.slice(0));
+	} catch (e) {
+		// デコードできない形式は分割しない
+	}
+
+	if (!audio || (audio.duration <= TRANSCRIPTION_CHUNK_SECONDS && buffer.byteLength <= TRANSCRIPTION_MAX_BYTES)) {
+		if (buffer.byteLength > TRANSCRIPTION_MAX_BYTES) {
+			throw new Error(`${name} is larger than 25 MB and could not be decoded to split it`);
 		}
+		return [{ name, mimeType, data: buffer }];
+	}
 
-		if (!this.settings.apiKey) {
-			new Notice('Please set your OpenAI API key in settings');
-			return;
+	// チャンネルを平均してモノラルにする
+	const samples = new Float32Array(audio.length);
+	for (let channel = 0; channel < audio.numberOfChannels; channel++) {
+		const data = audio.getChannelData(channel);
+		for (let i = 0; i < data.length; i++) {
+			samples[i] += data[i] / audio.numberOfChannels;
 		}
+	}
 
-		// 対話型ChatGPTモーダルを開く
-		new InteractiveChatModal(
-			this.app,
-			this,
-			selectedText,
-			editor,
-			wasInReadingMode ? { view: markdownView, state, wasInReadingMode } : undefined
-		).open();
+	const chunkLength = TRANSCRIPTION_CHUNK_SECONDS * audio.sampleRate;
+	const baseName = name.replace(/\.[^.]+$/, '');
+	const chunks: AudioChunk[] = [];
+	for (let start = 0; start < samples.length; start += chunkLength) {
+		chunks.push({
+			name: `${baseName}-${chunks.length + 1}.wav`,
+			mimeType: 'audio/wav',
+			data: encodeWav(samples.subarray(start, start + chunkLength), audio.sampleRate),
+		});
 	}
+	return chunks;
+}
 
-	async callOpenAI(prompt: string): Promise<string> {
-		const requestBody: any = {
-			model: this.settings.model,
-			input: [
-				{
-					role: 'system',
-					content: this.settings.systemPrompt,
-				},
-				{
-					role: 'user',
-					content: prompt,
-				},
-			],
-			temperature: this.settings.temperature,
-			max_output_tokens: this.settings.maxTokens,
+// 16bit PCMのWAVにエンコード
+function encodeWav(samples: Float32Array, sampleRate: number): ArrayBuffer {
+	const buffer = new ArrayBuffer(44 + samples.length * 2);
+	const view = new DataView(buffer);
+	const writeString = (offset: number, text: string) => {
+		for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+	};
+
+	writeString(0, 'RIFF');
+	view.setUint32(4, 36 + samples.length * 2, true);
+	writeString(8, 'WAVE');
+	writeString(12, 'fmt ');
+	view.setUint32(16, 16, true);
+	view.setUint16(20, 1, true); // PCM
+	view.setUint16(22, 1, true); // モノラル
+	view.setUint32(24, sampleRate, true);
+	view.setUint32(28, sampleRate * 2, true);
+	view.setUint16(32, 2, true);
+	view.setUint16(34, 16, true);
+	writeString(36, 'data');
+	view.setUint32(40, samples.length * 2, true);
+
+	samples.forEach((sample, i) => {
+		const clamped = Math.max(-1, Math.min(1, sample));
+		view.setInt16(44 + i * 2, clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff, true);
+	});
+	return buffer;
+}
+
+// multipart/form-dataの本文を組み立てる（requestUrlはFormDataを送れないため）
+function buildMultipartBody(fields: Record<string, string>, file: AudioChunk): { body: ArrayBuffer; contentType: string } {
+	const boundary = `----ChatGPTPlugin${Date.now().toString(16)}`;
+	const encoder = new TextEncoder();
+	let head = '';
+	Object.entries(fields).forEach(([key, value]) => {
+		head += `--${boundary}\r\nContent-Disposition: form-data; name="${key}"\r\n\r\n${value}\r\n`;
+	});
+	head += `--${boundary}\r\nContent-Disposition: form-data; name="file"; filename="${file.name.replace(/"/g, '')}"\r\n`;
+	head += `Content-Type: ${file.mimeType}\r\n\r\n`;
+
+	const headBytes = encoder.encode(head);
+	const tailBytes = encoder.encode(`\r\n--${boundary}--\r\n`);
+	const body = new Uint8Array(headBytes.length + file.data.byteLength + tailBytes.length);
+	body.set(headBytes, 0);
+	body.set(new Uint8Array(file.data), headBytes.length);
+	body.set(tailBytes, headBytes.length + file.data.byteLength);
+	return { body: body.buffer, contentType: `multipart/form-data; boundary=${boundary}` };
+}
+
+interface ChatRequestOptions {
+	model: string;
+	temperature: number;
+	maxTokens: number;
+	useWebSearch: boolean;
+	stream: boolean;
+	jsonSchema?: any; // 構造化出力のJSON Schema
+	tools?: any[]; // functionツールの定義（Responses APIのみ）
+	toolChoice?: 'auto' | 'none';
+}
+
+// ストリーミングの1イベントを解析した結果
+interface StreamEvent {
+	delta?: string;
+	usage?: Partial<TokenUsage>;
+	error?: string;
+	fullText?: string; // 完了時の全文（引用の位置はこの全文に対する位置）
+	citations?: Citation[]; // endが-1の場合はその時点までに受信したテキストの末尾
+	webSearchCalls?: number;
+	toolCalls?: ToolCall[];
+	outputItems?: any[]; // ツール呼び出しの場合に次のリクエストへ渡す出力アイテム
+}
+
+// レスポンスを解析した結果
+interface ParsedResponse {
+	text: string; // 前後の空白を除く前のテキスト（引用の位置に合わせる）
+	usage: TokenUsage | null;
+	citations: Citation[];
+	webSearchCalls: number;
+	toolCalls?: ToolCall[]; // モデルが呼び出したfunctionツール
+	outputItems?: any[]; // ツール呼び出しの場合に次のリクエストへ渡す出力アイテム
+}
+
+// API形式ごとのリクエスト生成・レスポンス解析
+interface ApiAdapter {
+	buildBody(messages: ApiMessage[], options: ChatRequestOptions): any;
+	parseResponse(data: any): ParsedResponse;
+	parseStreamEvent(data: any): StreamEvent;
+}
+
+// OpenAI Responses API（/v1/responses）
+class ResponsesApiAdapter implements ApiAdapter {
+	buildBody(messages: ApiMessage[], options: ChatRequestOptions): any {
+		const body: any = {
+			model: options.model,
+			input: messages.flatMap((msg) => msg.items || [{
+				role: msg.role,
+				content: msg.images?.length
+					? [
+						{ type: 'input_text', text: msg.content },
+						...msg.images.map((image) => ({ type: 'input_image', image_url: toDataUrl(image) })),
+					]
+					: msg.content,
+			}]),
+			temperature: options.temperature,
+			max_output_tokens: options.maxTokens,
 		};
 
 		// Web検索が有効な場合はツールを追加
-		if (this.settings.useWebSearch) {
-			requestBody.tools = [{ type: "web_search" }];
+		if (options.useWebSearch) {
+			body.tools = [{ type: "web_search" }];
 		}
 
-		const response = await requestUrl({
-			url: 'https://api.openai.com/v1/responses',
-			method: 'POST',
-			headers: {
-				'Authorization': `Bearer ${this.settings.apiKey}`,
-				'Content-Type': 'application/json',
-			},
-			body: JSON.stringify(requestBody),
-		});
-
-		const data = response.json;
-
-		if (data.error) {
-			throw new Error(data.error.message || 'OpenAI API Error');
+		// vaultの操作などのfunctionツール
+		if (options.tools?.length) {
+			body.tools = [...(body.tools || []), ...options.tools];
+			if (options.toolChoice) body.tool_choice = options.toolChoice;
 		}
 
-		// 使用量を記録（Responses APIのusageフィールド）
-		if (data.usage) {
-			this.recordUsage(
-				this.settings.model,
-				data.usage.prompt_tokens || data.usage.input_tokens || 0,
-				data.usage.completion_tokens || data.usage.output_tokens || 0
-			);
+		// 構造化出力（スキーマに沿ったJSONで回答させる）
+		if (options.jsonSchema) {
+			body.text = {
+				format: {
+					type: 'json_schema',
+					name: 'output',
+					schema: options.jsonSchema,
+					strict: isStrictJsonSchema(options.jsonSchema),
+				},
+			};
 		}
 
-		// Responses APIではoutput_textまたはoutput配列を使用
-		if (data.output_text) {
-			return data.output_text.trim();
+		if (options.stream) {
+			body.stream = true;
 		}
 
-		if (data.output && data.output.length > 0) {
-			// output配列をループしてmessageタイプを探す（Web検索時は複数アイテムがある）
-			for (const outputItem of data.output) {
-				if (outputItem.type === "message" && outputItem.content && outputItem.content.length > 0) {
-					for (const contentItem of outputItem.content) {
-						if (contentItem.type === "output_text" && contentItem.text) {
-							return contentItem.text.trim();
-						}
+		return body;
+	}
+
+	parseResponse(data: any): ParsedResponse {
+		const usage = data.usage
+			? {
+				inputTokens: data.usage.prompt_tokens || data.usage.input_tokens || 0,
+				outputTokens: data.usage.completion_tokens || data.usage.output_tokens || 0,
+				cachedTokens: data.usage.input_tokens_details?.cached_tokens || 0,
+			}
+			: null;
+
+		// output配列のテキストをつなげ、引用（url_citation）の位置を全文の位置に変換する
+		// Web検索時はweb_search_callとmessageの複数アイテムがある
+		let text = '';
+		const citations: Citation[] = [];
+		let webSearchCalls = 0;
+		const toolCalls: ToolCall[] = [];
+
+		for (const outputItem of data.output || []) {
+			if (outputItem.type === 'web_search_call') {
+				webSearchCalls++;
+				continue;
+			}
+			if (outputItem.type === 'function_call') {
+				toolCalls.push({ id: outputItem.call_id, name: outputItem.name, arguments: outputItem.arguments || '{}' });
+				continue;
+			}
+			if (outputItem.type !== 'message' || !outputItem.content) continue;
+
+			for (const contentItem of outputItem.content) {
+				if (contentItem.type !== 'output_text' || !contentItem.text) continue;
+				if (text) text += '\n\n';
+				const offset = text.length;
+				text += contentItem.text;
+
+				(contentItem.annotations || []).forEach((annotation: any) => {
+					if (annotation.type === 'url_citation' && annotation.url) {
+						citations.push({
+							url: annotation.url,
+							title: annotation.title || '',
+							start: offset + annotation.start_index,
+							end: offset + annotation.end_index,
+						});
 					}
-				}
+				});
 			}
 		}
 
-		throw new Error('No response from ChatGPT');
+		if (!text && data.output_text) {
+			text = data.output_text;
+		}
+
+		// ツール呼び出しの場合、次のリクエストには推論も含めた出力をそのまま渡す
+		return toolCalls.length > 0
+			? { text, usage, citations, webSearchCalls, toolCalls, outputItems: data.output }
+			: { text, usage, citations, webSearchCalls };
 	}
 
-	// 会話履歴を使ったOpenAI API呼び出し（対話型モーダル用）
-	async callOpenAIWithHistory(messages: Array<{role: string, content: string}>): Promise<string> {
-		const requestBody: any = {
-			model: this.settings.model,
-			input: messages,
-			temperature: this.settings.temperature,
-			max_output_tokens: this.settings.maxTokens,
+	parseStreamEvent(data: any): StreamEvent {
+		if (data.type === 'response.output_text.delta') {
+			return { delta: data.delta };
+		}
+		if (data.type === 'response.completed' && data.response) {
+			// 完了イベントの全体から引用とWeb検索の回数を取得する
+			const parsed = this.parseResponse(data.response);
+			const event: StreamEvent = { webSearchCalls: parsed.webSearchCalls };
+			if (parsed.usage) event.usage = parsed.usage;
+			if (parsed.toolCalls) {
+				event.toolCalls = parsed.toolCalls;
+				event.outputItems = parsed.outputItems;
+			}
+			if (parsed.citations.length > 0) {
+				event.fullText = parsed.text;
+				event.citations = parsed.citations;
+			}
+			return event;
+		}
+		if (data.type === 'response.failed' || data.type === 'error') {
+			return { error: data.response?.error?.message || data.message || 'API Error' };
+		}
+		return {};
+	}
+}
+
+// Chat Completions API（/v1/chat/completions、Ollama・vLLM等のOpenAI互換サーバー）
+class ChatCompletionsApiAdapter implements ApiAdapter {
+	buildBody(messages: ApiMessage[], options: ChatRequestOptions): any {
+		const body: any = {
+			model: options.model,
+			// ツール呼び出しのアイテムはResponses APIのみ
+			messages: messages.filter((msg) => !msg.items).map((msg) => ({
+				role: msg.role,
+				content: msg.images?.length
+					? [
+						{ type: 'text', text: msg.content },
+						...msg.images.map((image) => ({ type: 'image_url', image_url: { url: toDataUrl(image) } })),
+					]
+					: msg.content,
+			})),
+			temperature: options.temperature,
+			max_tokens: options.maxTokens,
 		};
 
-		// Web検索が有効な場合はツールを追加
-		if (this.settings.useWebSearch) {
-			requestBody.tools = [{ type: "web_search" }];
+		if (options.jsonSchema) {
+			body.response_format = {
+				type: 'json_schema',
+				json_schema: {
+					name: 'output',
+					schema: options.jsonSchema,
+					strict: isStrictJsonSchema(options.jsonSchema),
+				},
+			};
 		}
 
-		const response = await requestUrl({
-			url: 'https://api.openai.com/v1/responses',
-			method: 'POST',
-			headers: {
-				'Authorization': `Bearer ${this.settings.apiKey}`,
-				'Content-Type': 'application/json',
-			},
-			body: JSON.stringify(requestBody),
-		});
+		if (options.stream) {
+			body.stream = true;
+			// 最終チャンクにusageを含める
+			body.stream_options = { include_usage: true };
+		}
+
+		return body;
+	}
 
-		const data = response.json;
+	parseResponse(data: any): ParsedResponse {
+		const usage = data.usage
+			? {
+				inputTokens: data.usage.prompt_tokens || 0,
+				outputTokens: data.usage.completion_tokens || 0,
+				cachedTokens: data.usage.prompt_tokens_details?.cached_tokens || 0,
+			}
+			: null;
+		const text = data.choices?.[0]?.message?.content || '';
+		return { text, usage, citations: [], webSearchCalls: 0 };
+	}
 
+	parseStreamEvent(data: any): StreamEvent {
 		if (data.error) {
-			throw new Error(data.error.message || 'OpenAI API Error');
+			return { error: data.error.message || 'API Error' };
 		}
 
-		// 使用量を記録（Responses APIのusageフィールド）
+		const event: StreamEvent = {};
+		const delta = data.choices?.[0]?.delta?.content;
+		if (delta) {
+			event.delta = delta;
+		}
 		if (data.usage) {
-			this.recordUsage(
-				this.settings.model,
-				data.usage.prompt_tokens || data.usage.input_tokens || 0,
-				data.usage.completion_tokens || data.usage.output_tokens || 0
-			);
+			event.usage = {
+				inputTokens: data.usage.prompt_tokens || 0,
+				outputTokens: data.usage.completion_tokens || 0,
+				cachedTokens: data.usage.prompt_tokens_details?.cached_tokens || 0,
+			};
 		}
+		return event;
+	}
+}
 
-		// Responses APIではoutput_textまたはoutput配列を使用
-		if (data.output_text) {
-			return data.output_text.trim();
+// Anthropic Messages API（/v1/messages）
+class MessagesApiAdapter implements ApiAdapter {
+	buildBody(messages: ApiMessage[], options: ChatRequestOptions): any {
+		// systemメッセージはトップレベルのsystemにまとめる
+		let system = messages
+			.filter((msg) => msg.role === 'system')
+			.map((msg) => msg.content)
+			.join('\n\n');
+
+		// 構造化出力の指定が無いため、スキーマを指示として渡す（回答は呼び出し側で検証する）
+		if (options.jsonSchema) {
+			system += `\n\nRespond only with a JSON object that matches this JSON Schema, without any other text:\n${JSON.stringify(options.jsonSchema)}`;
 		}
 
-		if (data.output && data.output.length > 0) {
-			// output配列をループしてmessageタイプを探す（Web検索時は複数アイテムがある）
-			for (const outputItem of data.output) {
-				if (outputItem.type === "message" && outputItem.content && outputItem.content.length > 0) {
-					for (const contentItem of outputItem.content) {
-						if (contentItem.type === "output_text" && contentItem.text) {
-							return contentItem.text.trim();
-						}
-					}
-				}
-			}
+		const body: any = {
+			model: options.model,
+			system,
+			messages: messages
+				.filter((msg) => msg.role !== 'system' && !msg.items)
+				.map((msg) => ({
+					role: msg.role,
+					content: msg.images?.length
+						? [
+							...msg.images.map((image) => ({
+								type: 'image',
+								source: { type: 'base64', media_type: image.mimeType, data: image.data },
+							})),
+							{ type: 'text', text: msg.content },
+						]
+						: msg.content,
+				})),
+			// Messages APIのtemperatureは0〜1
+			temperature: Math.min(options.temperature, 1),
+			max_tokens: options.maxTokens,
+		};
+
+		if (options.useWebSearch) {
+			body.tools = [{ type: 'web_search_20250305', name: 'web_search' }];
 		}
 
-		throw new Error('No response from ChatGPT');
-	}
+		if (options.stream) {
+			body.stream = true;
+		}
 
-	// コスト計算（モデル別料金）
-	calculateCost(model: string, promptTokens: number, completionTokens: number): number {
-		// 料金表（USD per 1M tokens）2025年1月時点
-		const pricing: { [key: string]: { input: number; output: number } } = {
-			'gpt-5.2': { input: 1.75, output: 7.00 },
-			'gpt-5.1': { input: 1.25, output: 5.00 },
-			'gpt-5': { input: 1.00, output: 4.00 },
-			'gpt-5-mini': { input: 0.25, output: 1.00 },
-			'gpt-5-nano': { input: 0.10, output: 0.40 },
-			'gpt-4o': { input: 2.50, output: 10.00 },
-			'gpt-4o-mini': { input: 0.150, output: 0.600 },
-			'gpt-4-turbo': { input: 10.00, output: 30.00 },
-			'gpt-4': { input: 30.00, output: 60.00 },
-			'gpt-3.5-turbo': { input: 0.50, output: 1.50 },
-		};
+		return body;
+	}
 
-		const modelPricing = pricing[model] || pricing['gpt-4o']; // デフォルトはgpt-4o
-		const inputCost = (promptTokens / 1_000_000) * modelPricing.input;
-		const outputCost = (completionTokens / 1_000_000) * modelPricing.output;
+	parseResponse(data: any): ParsedResponse {
+		const usage = data.usage
+			? {
+				// input_tokensにはキャッシュから読み込んだ分が含まれないため合算する
+				inputTokens: (data.usage.input_tokens || 0) + (data.usage.cache_read_input_tokens || 0),
+				outputTokens: data.usage.output_tokens || 0,
+				cachedTokens: data.usage.cache_read_input_tokens || 0,
+			}
+			: null;
+
+		// 引用はテキストブロックごとに付くため、ブロックの末尾を引用位置とする
+		let text = '';
+		const citations: Citation[] = [];
+		(data.content || []).forEach((block: any) => {
+			if (block.type !== 'text') return;
+			text += block.text;
+			(block.citations || []).forEach((citation: any) => {
+				if (citation.url) {
+					citations.push({ url: citation.url, title: citation.title || '', end: text.length });
+				}
+			});
+		});
 
-		return inputCost + outputCost;
+		return { text, usage, citations, webSearchCalls: data.usage?.server_tool_use?.web_search_requests || 0 };
 	}
 
-	// 使用量を記録
-	recordUsage(model: string, promptTokens: number, completionTokens: number) {
-		const totalTokens = promptTokens + completionTokens;
-		const estimatedCost = this.calculateCost(model, promptTokens, completionTokens);
-
-		const record: UsageRecord = {
-			date: new Date().toISOString(),
-			model,
-			promptTokens,
-			completionTokens,
-			totalTokens,
-			estimatedCost,
-		};
+	// 受信中のテキストブロックの引用（ブロックの終わりでまとめて位置を決める）
+	pendingCitations: Citation[] = [];
 
-		this.settings.usageHistory.push(record);
-		this.saveSettings();
+	parseStreamEvent(data: any): StreamEvent {
+		switch (data.type) {
+			case 'content_block_delta':
+				if (data.delta?.type === 'text_delta') {
+					return { delta: data.delta.text };
+				}
+				if (data.delta?.type === 'citations_delta' && data.delta.citation?.url) {
+					this.pendingCitations.push({ url: data.delta.citation.url, title: data.delta.citation.title || '', end: -1 });
+				}
+				break;
+			case 'content_block_stop':
+				if (this.pendingCitations.length > 0) {
+					const citations = this.pendingCitations;
+					this.pendingCitations = [];
+					return { citations };
+				}
+				break;
+			case 'message_start':
+				if (data.message?.usage) {
+					const cachedTokens = data.message.usage.cache_read_input_tokens || 0;
+					return { usage: { inputTokens: (data.message.usage.input_tokens || 0) + cachedTokens, cachedTokens } };
+				}
+				break;
+			case 'message_delta':
+				if (data.usage) {
+					return {
+						usage: { outputTokens: data.usage.output_tokens || 0 },
+						webSearchCalls: data.usage.server_tool_use?.web_search_requests || 0,
+					};
+				}
+				break;
+			case 'error':
+				return { error: data.error?.message || 'API Error' };
+		}
+		return {};
 	}
+}
 
-	async loadSettings() {
-		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
-	}
+// API呼び出しのオプション
+interface ChatCallOptions {
+	onDelta?: (delta: string) => void; // ストリーミング時の部分テキスト
+	signal?: AbortSignal; // 停止用
+	onUsage?: (record: UsageRecord) => void; // 記録した使用量
+	source?: string; // 使用量の集計に使うコマンド・テンプレート名
+	notePath?: string; // 使用量の集計に使うノートのパス
+	model?: string; // モデルの上書き（テンプレート用）
+	temperature?: number; // Temperatureの上書き（テンプレート用）
+	systemPrompt?: string; // システムプロンプトの上書き（callOpenAIのみ）
+	context?: string; // ノートから組み立てたコンテキスト（callOpenAIのみ）
+	images?: ImageAttachment[]; // ユーザーメッセージに添付する画像（callOpenAIのみ）
+	jsonSchema?: any; // 構造化出力のJSON Schema（ストリーミング・Web検索はしない）
+	tools?: any[]; // functionツールの定義（Responses APIのみ）
+	toolChoice?: 'auto' | 'none';
+	onToolCalls?: (calls: ToolCall[], outputItems: any[]) => void; // モデルがツールを呼び出した場合（回答は空のことがある）
+}
 
-	async saveSettings() {
-		await this.saveData(this.settings);
+function createApiAdapter(flavour: ApiFlavour): ApiAdapter {
+	switch (flavour) {
+		case 'chat-completions':
+			return new ChatCompletionsApiAdapter();
+		case 'messages':
+			return new MessagesApiAdapter();
+		default:
+			return new ResponsesApiAdapter();
 	}
 }
 
-// 対話型ChatGPTモーダル
-interface ChatMessage {
-	role: 'user' | 'assistant';
-	content: string;
+interface UsageRecord {
+	date: string; // ISO date string
+	model: string;
+	promptTokens: number;
+	completionTokens: number;
+	totalTokens: number;
+	estimatedCost: number; // USD
+	cachedTokens?: number; // promptTokensのうちキャッシュ料金の分
+	webSearchCalls?: number;
+	imageTokens?: number; // promptTokensのうち画像入力の推定分
+	kind?: UsageKind; // 省略時はテキスト生成
+	generatedImages?: number; // 生成した画像の枚数
+	source?: string; // リクエスト元のコマンド・テンプレート名
+	notePath?: string; // リクエストのきっかけになったノート
 }
 
-class InteractiveChatModal extends Modal {
-	plugin: ChatGPTPlugin;
-	selectedText: string;
-	editor: Editor;
-	readingModeInfo?: {
-		view: MarkdownView;
-		state: any;
-		wasInReadingMode: boolean;
-	};
+// 使用量の種類（テキスト生成以外のAPI）
+type UsageKind = 'embedding' | 'image' | 'audio';
+
+// recordUsageに渡す追加情報
+interface UsageDetails {
+	cachedTokens?: number;
+	webSearchCalls?: number;
+	imageTokens?: number;
+	kind?: UsageKind;
+	generatedImages?: number;
+	source?: string;
+	notePath?: string;
+}
 
-	// 会話履歴（API送信用、システムプロンプト + 選択テキスト含む）
-	messages: Array<{role: string, content: string}> = [];
-	// 表示用会話履歴（ユーザーとアシスタントのやり取りのみ）
-	displayMessages: ChatMessage[] = [];
+// 保存期間を過ぎた使用量記録を月・モデル・コマンドごとにまとめたもの
+interface UsageAggregate {
+	month: string; // YYYY-MM
+	model: string;
+	source: string;
+	requests: number;
+	promptTokens: number;
+	completionTokens: number;
+	totalTokens: number;
+	estimatedCost: number;
+	cachedTokens?: number;
+	webSearchCalls?: number;
+	generatedImages?: number;
+}
 
-	// UI要素
-	conversationEl: HTMLElement;
-	inputEl: HTMLTextAreaElement;
-	sendBtn: HTMLButtonElement;
-	insertBtn: HTMLButtonElement;
-	isLoading: boolean = false;
-	autoScroll: boolean = true; // スマート自動スクロール制御
+// モデルごとの料金（トークンはUSD per 1M tokens、Web検索はUSD per call、画像はUSD per image）
+interface ModelPricing {
+	input: number;
+	cachedInput: number;
+	output: number;
+	webSearchCall: number;
+	image: number; // 生成画像1枚あたり（トークン数を返さない画像モデル用）
+}
 
-	constructor(
-		app: App,
-		plugin: ChatGPTPlugin,
-		selectedText: string,
-		editor: Editor,
-		readingModeInfo?: { view: MarkdownView; state: any; wasInReadingMode: boolean }
-	) {
-		super(app);
-		this.plugin = plugin;
-		this.selectedText = selectedText;
-		this.editor = editor;
-		this.readingModeInfo = readingModeInfo;
+// 料金表の初期値（設定画面で編集・JSONから読み込み可能）
+const DEFAULT_PRICING: { [model: string]: ModelPricing } = {
+	'gpt-5.2': { input: 1.75, cachedInput: 0.175, output: 7.00, webSearchCall: 0.01, image: 0 },
+	'gpt-5.1': { input: 1.25, cachedInput: 0.125, output: 5.00, webSearchCall: 0.01, image: 0 },
+	'gpt-5': { input: 1.00, cachedInput: 0.10, output: 4.00, webSearchCall: 0.01, image: 0 },
+	'gpt-5-mini': { input: 0.25, cachedInput: 0.025, output: 1.00, webSearchCall: 0.01, image: 0 },
+	'gpt-5-nano': { input: 0.10, cachedInput: 0.01, output: 0.40, webSearchCall: 0.01, image: 0 },
+	'gpt-4o': { input: 2.50, cachedInput: 1.25, output: 10.00, webSearchCall: 0.025, image: 0 },
+	'gpt-4o-mini': { input: 0.150, cachedInput: 0.075, output: 0.600, webSearchCall: 0.025, image: 0 },
+	'gpt-4-turbo': { input: 10.00, cachedInput: 10.00, output: 30.00, webSearchCall: 0, image: 0 },
+	'gpt-4': { input: 30.00, cachedInput: 30.00, output: 60.00, webSearchCall: 0, image: 0 },
+	'gpt-3.5-turbo': { input: 0.50, cachedInput: 0.50, output: 1.50, webSearchCall: 0, image: 0 },
+	'text-embedding-3-small': { input: 0.02, cachedInput: 0.02, output: 0, webSearchCall: 0, image: 0 },
+	'text-embedding-3-large': { input: 0.13, cachedInput: 0.13, output: 0, webSearchCall: 0, image: 0 },
+	'gpt-image-1': { input: 5.00, cachedInput: 1.25, output: 40.00, webSearchCall: 0, image: 0 },
+	'gpt-image-1-mini': { input: 2.00, cachedInput: 0.20, output: 8.00, webSearchCall: 0, image: 0 },
+	'dall-e-3': { input: 0, cachedInput: 0, output: 0, webSearchCall: 0, image: 0.04 },
+	'dall-e-2': { input: 0, cachedInput: 0, output: 0, webSearchCall: 0, image: 0.02 },
+	'gpt-4o-transcribe': { input: 6.00, cachedInput: 6.00, output: 10.00, webSearchCall: 0, image: 0 },
+	'gpt-4o-mini-transcribe': { input: 3.00, cachedInput: 3.00, output: 5.00, webSearchCall: 0, image: 0 },
+};
 
-		// 初期メッセージ（システムプロンプト + 選択テキストコンテキスト）
-		this.messages.push({
-			role: 'system',
-			content: this.plugin.settings.systemPrompt,
-		});
-		this.messages.push({
-			role: 'system',
-			content: `Selected context from the document:\n\n${selectedText}`,
-		});
-	}
+// 予算の上限に達したときの動作
+type BudgetAction = 'block' | 'fallback';
 
-	onOpen() {
-		const { contentEl } = this;
-		contentEl.empty();
+const BUDGET_ACTION_LABELS: Record<BudgetAction, string> = {
+	'block': 'Block requests',
+	'fallback': 'Switch to a cheaper model',
+};
 
-		// モーダル専用クラスを追加
-		this.modalEl.addClass('chatgpt-interactive-modal');
+// 画像生成のサイズと品質（gpt-imageの値。DALL·Eでは近い値に読み替える）
+const IMAGE_SIZE_LABELS: Record<string, string> = {
+	'1024x1024': 'Square (1024×1024)',
+	'1024x1536': 'Portrait (1024×1536)',
+	'1536x1024': 'Landscape (1536×1024)',
+	'auto': 'Auto',
+};
 
-		// タイトル
-		contentEl.createEl('h2', { text: '💬 ChatGPT Interactive Chat' });
+const IMAGE_QUALITY_LABELS: Record<string, string> = {
+	'low': 'Low',
+	'medium': 'Medium',
+	'high': 'High',
+	'auto': 'Auto',
+};
 
-		// 選択テキストプレビュー（折りたたみ可能）
-		const contextSection = contentEl.createDiv('chatgpt-context-section');
-		const contextHeader = contextSection.createDiv('chatgpt-context-header');
-		contextHeader.createEl('strong', { text: '📄 Selected Context' });
-		const toggleIcon = contextHeader.createSpan('chatgpt-toggle-icon');
-		toggleIcon.textContent = '▼';
+interface ImageGenerationOptions {
+	size: string;
+	quality: string;
+}
 
-		const contextContent = contextSection.createDiv('chatgpt-context-content');
-		contextContent.style.display = 'block';
-		const contextText = contextContent.createEl('div', { cls: 'chatgpt-context-text' });
-		contextText.textContent = this.selectedText.length > 200
-			? this.selectedText.substring(0, 200) + '...'
-			: this.selectedText;
+// 文字起こしの後に続けて行う処理
+type TranscriptFollowUp = 'none' | 'summary' | 'tasks';
 
-		// 折りたたみ動作
-		contextHeader.addEventListener('click', () => {
-			if (contextContent.style.display === 'none') {
-				contextContent.style.display = 'block';
-				toggleIcon.textContent = '▼';
-			} else {
-				contextContent.style.display = 'none';
-				toggleIcon.textContent = '▶';
-			}
-		});
+const TRANSCRIPT_FOLLOW_UP_LABELS: Record<TranscriptFollowUp, string> = {
+	'none': 'Transcript only',
+	'summary': 'Add a cleaned-up summary',
+	'tasks': 'Add a task list',
+};
 
-		// 入力エリア（会話履歴の上に配置）
-		const inputSection = contentEl.createDiv('chatgpt-input-section');
+const TRANSCRIPT_FOLLOW_UPS: Record<Exclude<TranscriptFollowUp, 'none'>, { heading: string; prompt: string }> = {
+	'summary': {
+		heading: 'Summary',
+		prompt: 'Clean up this voice memo transcript (drop filler words and false starts) and summarize it in Markdown: a one-sentence overview followed by the key points. Write in the language of the transcript.',
+	},
+	'tasks': {
+		heading: 'Tasks',
+		prompt: 'Extract every action item from this voice memo transcript as a Markdown task list ("- [ ] ..."), including owners and due dates when mentioned. Write in the language of the transcript. If there are none, answer "No tasks".',
+	},
+};
 
-		this.inputEl = inputSection.createEl('textarea', {
-			placeholder: '💬 ここに質問を入力してください...',
-			cls: 'chatgpt-input',
-		});
-		this.inputEl.setAttribute('inputmode', 'text');
-		this.inputEl.setAttribute('autocomplete', 'off');
-		this.inputEl.setAttribute('autocorrect', 'off');
-		this.inputEl.setAttribute('spellcheck', 'false');
+// 回答の挿入先
+type InsertionMode = 'end' | 'replace' | 'below-selection' | 'cursor' | 'callout' | 'heading' | 'new-note';
+
+const INSERTION_MODE_LABELS: Record<InsertionMode, string> = {
+	'end': 'Append to end of note',
+	'replace': 'Replace selection',
+	'below-selection': 'Insert below selection',
+	'cursor': 'Insert at cursor',
+	'callout': 'Collapsible callout below selection',
+	'heading': 'Append under heading',
+	'new-note': 'New linked note',
+};
 
-		// Enter キーで送信（Shift+Enter で改行）
-		this.inputEl.addEventListener('keydown', (e) => {
-			if (e.key === 'Enter' && !e.shiftKey) {
-				e.preventDefault();
-				this.handleSend();
-			}
-		});
+// コンテキストとして送信するノートの範囲
+interface ContextSources {
+	section: boolean; // 選択範囲を含む見出しのセクション
+	fullNote: boolean; // ノート全体
+	links: boolean; // リンク先のノート
+	backlinks: boolean; // バックリンク元のノート
+	embeds: boolean; // 埋め込まれたノート
+}
 
-		// ボタンエリア
-		const buttonContainer = inputSection.createDiv('chatgpt-button-container');
+const CONTEXT_SOURCE_LABELS: Record<keyof ContextSources, string> = {
+	section: 'Current section',
+	fullNote: 'Full note',
+	links: 'Linked notes',
+	backlinks: 'Backlinks',
+	embeds: 'Embedded notes',
+};
 
-		this.sendBtn = buttonContainer.createEl('button', { text: '送信', cls: 'chatgpt-send-btn' });
-		this.sendBtn.addEventListener('click', () => this.handleSend());
+// プロンプトテンプレート
+interface PromptTemplate {
+	id: string;
+	name: string;
+	systemPrompt: string; // 空の場合はデフォルトのシステムプロンプト
+	userPrompt: string; // {selection} {title} {frontmatter.xyz} {date} {clipboard} を置換
+	model: string; // 空の場合はデフォルトのモデル
+	temperature: number | null; // nullの場合はデフォルトのTemperature
+	insertionMode?: InsertionMode; // 未設定の場合はAsk ChatGPTの挿入先
+	outputSchema?: string; // 構造化出力のJSON Schema（空の場合は通常のテキスト）
+	outputFormat?: StructuredOutputFormat; // 構造化出力をノートに反映する形式
+}
 
-		this.insertBtn = buttonContainer.createEl('button', { text: '挿入して閉じる', cls: 'chatgpt-insert-btn' });
-		this.insertBtn.addEventListener('click', () => this.handleInsertAndClose());
+// 構造化出力の反映形式
+type StructuredOutputFormat = 'table' | 'tasks' | 'frontmatter' | 'json';
 
-		// デバッグモード時のみ表示
-		if (this.plugin.settings.debugMode) {
-			const debugBtn = buttonContainer.createEl('button', { text: '🐛 ログ保存', cls: 'chatgpt-cancel-btn' });
-			debugBtn.addEventListener('click', async () => {
-				await this.plugin.debugLogger.saveToFile();
-			});
-		}
+const STRUCTURED_OUTPUT_FORMAT_LABELS: Record<StructuredOutputFormat, string> = {
+	'table': 'Table',
+	'tasks': 'Task list',
+	'frontmatter': 'Frontmatter properties',
+	'json': 'JSON code block',
+};
 
-		const cancelBtn = buttonContainer.createEl('button', { text: 'キャンセル', cls: 'chatgpt-cancel-btn' });
-		cancelBtn.addEventListener('click', () => this.close());
+const DEFAULT_TEMPLATES: PromptTemplate[] = [
+	{
+		id: 'summarize',
+		name: 'Summarize in 3 bullets',
+		systemPrompt: '',
+		userPrompt: 'Summarize the following text in 3 bullet points:\n\n{selection}',
+		model: '',
+		temperature: null,
+	},
+	{
+		id: 'translate-en',
+		name: 'Translate to English',
+		systemPrompt: 'You are a professional translator. Output only the translation.',
+		userPrompt: 'Translate the following text to English:\n\n{selection}',
+		model: '',
+		temperature: 0.3,
+	},
+	{
+		id: 'explain',
+		name: "Explain like I'm new",
+		systemPrompt: '',
+		userPrompt: 'Explain the following to someone who is new to the topic, using simple words and an example:\n\n{selection}',
+		model: '',
+		temperature: null,
+	},
+	{
+		id: 'extract-tasks',
+		name: 'Extract action items',
+		systemPrompt: '',
+		userPrompt: 'List the action items in the following text:\n\n{selection}',
+		model: '',
+		temperature: null,
+		outputSchema: JSON.stringify({
+			type: 'object',
+			properties: {
+				tasks: {
+					type: 'array',
+					items: {
+						type: 'object',
+						properties: {
+							task: { type: 'string' },
+							due: { type: ['string', 'null'], description: 'Due date as YYYY-MM-DD, or null' },
+						},
+						required: ['task', 'due'],
+						additionalProperties: false,
+					},
+				},
+			},
+			required: ['tasks'],
+			additionalProperties: false,
+		}, null, 2),
+		outputFormat: 'tasks',
+	},
+];
 
-		// 会話履歴表示エリア（入力エリアの下に配置）
-		this.conversationEl = contentEl.createDiv('chatgpt-conversation');
+interface ChatGPTSettings {
+	providers: ProviderConfig[];
+	activeProviderId: string;
+	apiKeys: ApiKeyEntry[];
+	model: string;
+	temperature: number;
+	maxTokens: number;
+	systemPrompt: string;
+	responseFormat: string;
+	debugMode: boolean;
+	logLevel: LogLevel;
+	redactPrompts: boolean; // ログ・トレースからプロンプトと回答の内容を除く
+	logToFile: boolean;
+	logFolder: string;
+	logFileMaxKB: number; // これを超えたらログファイルをローテーションする
+	useWebSearch: boolean;
+	streamResponses: boolean;
+	sendImages: boolean; // 埋め込み・貼り付けた画像を対応モデルに送る
+	autoSaveChats: boolean;
+	chatTools: boolean; // チャットでvaultの検索・読み込み・書き込みツールを使わせる（Responses APIのみ）
+	chatFolder: string;
+	chatInSidebar: boolean;
+	templates: PromptTemplate[];
+	askInsertionMode: InsertionMode;
+	chatInsertionMode: InsertionMode;
+	insertionHeading: string;
+	contextSources: ContextSources;
+	contextTokenBudget: number;
+	vaultIndexEnabled: boolean;
+	embeddingEndpoint: string; // 空の場合はプロバイダーのエンドポイントから導出
+	embeddingModel: string;
+	vaultSearchTopK: number;
+	monthlyBudget: number; // USD（0は無制限）
+	dailyBudget: number; // USD（0は無制限）
+	budgetWarnPercent: number; // 予算のこの割合に達したら警告
+	budgetAction: BudgetAction;
+	budgetFallbackModel: string;
+	usageHistory: UsageRecord[];
+	usageMonthly: UsageAggregate[];
+	usageRetentionMonths: number; // これより古い記録は月ごとの集計にまとめる
+	pricing: { [model: string]: ModelPricing };
+	requestTimeout: number; // 秒
+	maxRetries: number;
+	imageEndpoint: string; // 空の場合はプロバイダーのエンドポイントから導出
+	imageModel: string;
+	imageSize: string;
+	imageQuality: string;
+	imageFolder: string; // 空の場合はObsidianの添付ファイルの設定に従う
+	transcriptionEndpoint: string; // 空の場合はプロバイダーのエンドポイントから導出
+	transcriptionModel: string;
+	transcriptionLanguage: string; // ISO-639-1（空の場合は自動判定）
+	transcriptFollowUp: TranscriptFollowUp;
+	batchConcurrency: number; // 一括処理の同時リクエスト数
+}
 
-		// スマート自動スクロール：ユーザーが最下部付近にいる場合のみ自動スクロール
-		this.conversationEl.addEventListener('scroll', () => {
-			const threshold = 100; // 最下部から100px以内なら「最下部」と判定
-			const isNearBottom =
-				this.conversationEl.scrollHeight - this.conversationEl.scrollTop - this.conversationEl.clientHeight < threshold;
-			this.autoScroll = isNearBottom;
+const DEFAULT_SETTINGS: ChatGPTSettings = {
+	providers: [],
+	activeProviderId: 'openai',
+	apiKeys: [],
+	model: 'gpt-4o',
+	temperature: 0.7,
+	maxTokens: 2000,
+	systemPrompt: 'You are a helpful assistant. Answer questions clearly and concisely.',
+	responseFormat: '**ChatGPT:**\n{response}',
+	debugMode: false,
+	logLevel: 'info',
+	redactPrompts: true,
+	logToFile: false,
+	logFolder: 'ChatGPT Logs',
+	logFileMaxKB: 512,
+	useWebSearch: false,
+	streamResponses: true,
+	sendImages: true,
+	autoSaveChats: true,
+	chatTools: false,
+	chatFolder: 'ChatGPT Chats',
+	chatInSidebar: true,
+	templates: DEFAULT_TEMPLATES,
+	askInsertionMode: 'end',
+	chatInsertionMode: 'end',
+	insertionHeading: 'ChatGPT',
+	contextSources: {
+		section: false,
+		fullNote: false,
+		links: false,
+		backlinks: false,
+		embeds: false,
+	},
+	contextTokenBudget: 4000,
+	vaultIndexEnabled: false,
+	embeddingEndpoint: '',
+	embeddingModel: 'text-embedding-3-small',
+	vaultSearchTopK: 5,
+	monthlyBudget: 0,
+	dailyBudget: 0,
+	budgetWarnPercent: 80,
+	budgetAction: 'block',
+	budgetFallbackModel: 'gpt-4o-mini',
+	usageHistory: [],
+	usageMonthly: [],
+	usageRetentionMonths: 3,
+	pricing: DEFAULT_PRICING,
+	requestTimeout: 60,
+	maxRetries: 3,
+	imageEndpoint: '',
+	imageModel: 'gpt-image-1',
+	imageSize: '1024x1024',
+	imageQuality: 'medium',
+	imageFolder: '',
+	transcriptionEndpoint: '',
+	transcriptionModel: 'gpt-4o-mini-transcribe',
+	transcriptionLanguage: '',
+	transcriptFollowUp: 'none',
+	batchConcurrency: 3,
+};
+
+// MenuItemの非公開API（サブメニュー）
+interface SubmenuMenuItem {
+	setSubmenu(): Menu;
+}
+
+export default class ChatGPTPlugin extends Plugin {
+	settings: ChatGPTSettings;
+	floatingButton: HTMLElement | null = null;
+	selectedTextCache: string = ''; // テキスト選択のキャッシュ（モバイル対応）
+	debugLogger: MobileDebugLogger;
+	chatHistory: ChatHistoryStore;
+	contextBuilder: NoteContextBuilder;
+	vaultIndex: VaultIndex;
+	vaultTools: VaultTools;
+	lastMarkdownView: MarkdownView | null = null; // 最後にフォーカスしたノート（サイドパネルの挿入先）
+	templateCommandIds: string[] = []; // 登録済みのテンプレートコマンド
+	budgetWarned: { [period: string]: string } = {}; // 警告済みの期間（同じ期間に何度も警告しない）
+	unpricedModels = new Set<string>(); // 料金未登録の警告を出したモデル
+
+	async onload() {
+		this.debugLogger = new MobileDebugLogger(this);
+		await this.loadSettings();
+		this.debugLogger.info('general', '🚀 ChatGPT Plugin loaded', { version: this.manifest.version });
+		this.chatHistory = new ChatHistoryStore(this);
+		this.contextBuilder = new NoteContextBuilder(this);
+		this.vaultIndex = new VaultIndex(this);
+		this.vaultTools = new VaultTools(this);
+
+		// サイドパネルのチャットビューを登録
+		this.registerView(CHAT_VIEW_TYPE, (leaf) => new ChatSidebarView(leaf, this));
+		this.registerView(USAGE_VIEW_TYPE, (leaf) => new UsageView(leaf, this));
+
+		// 古い使用量記録を月ごとの集計にまとめる
+		if (this.compactUsageHistory()) {
+			await this.saveSettings();
+		}
+
+		// 最後にフォーカスしたノートを記録（サイドパネルにフォーカスが移っても挿入先を保持）
+		this.registerEvent(
+			this.app.workspace.on('active-leaf-change', (leaf) => {
+				if (leaf && leaf.view instanceof MarkdownView) {
+					this.lastMarkdownView = leaf.view;
+				}
+			})
+		);
+		this.app.workspace.onLayoutReady(() => {
+			this.lastMarkdownView = this.app.workspace.getActiveViewOfType(MarkdownView);
 		});
 
-		// 初期フォーカス（iPhone対応強化）
-		setTimeout(() => {
-			this.inputEl.focus();
-			// iOSでカーソルを表示させるためにクリックイベントを発火
-			this.inputEl.click();
-			// 強制的にフォーカスを維持
-			this.inputEl.setSelectionRange(0, 0);
-		}, 150);
-	}
+		// リボンアイコンを追加（カスタムプロンプト版）
+		this.addRibbonIcon('message-square', 'Ask ChatGPT (Custom Prompt)', (evt: MouseEvent) => {
+			const markdownView = this.app.workspace.getActiveViewOfType(MarkdownView);
+			if (markdownView) {
+				const editor = markdownView.editor;
+				this.askChatGPTCustom(editor);
+			} else {
+				new Notice('Please open a note first');
+			}
+		});
 
-	async handleSend() {
-		const userInput = this.inputEl.value.trim();
-		if (!userInput || this.isLoading) return;
+		// テキスト選択時のフローティングボタン（モバイル対応）
+		this.registerDomEvent(document, 'selectionchange', () => {
+			this.handleSelectionChange();
+		});
 
-		// ユーザーメッセージを追加
-		this.displayMessages.push({ role: 'user', content: userInput });
-		this.messages.push({ role: 'user', content: userInput });
+		// テキスト選択時のコンテキストメニューに追加
+		this.registerEvent(
+			this.app.workspace.on('editor-menu', (menu, editor, view) => {
+				const selectedText = editor.getSelection();
+				if (selectedText && selectedText.trim()) {
+					menu.addItem((item) => {
+						item
+							.setTitle('✨ Ask ChatGPT')
+							.setIcon('message-square')
+							.onClick(async () => {
+								this.askChatGPT(editor);
+							});
+					});
 
-		// 入力欄をクリア
-		this.inputEl.value = '';
+					menu.addItem((item) => {
+						item
+							.setTitle('💬 Ask ChatGPT (Custom)')
+							.setIcon('edit')
+							.onClick(async () => {
+								this.askChatGPTCustom(editor);
+							});
+					});
 
-		// UI更新
-		this.renderConversation();
-		this.setLoading(true);
+					menu.addItem((item) => {
+						item
+							.setTitle('✏️ Rewrite with ChatGPT')
+							.setIcon('pencil')
+							.onClick(() => this.promptRewrite(editor));
+					});
 
-		try {
-			// ChatGPT APIを呼び出し
-			const response = await this.plugin.callOpenAIWithHistory(this.messages);
+					if (this.settings.templates.length > 0) {
+						menu.addItem((item) => {
+							item
+								.setTitle('📝 ChatGPT Templates')
+								.setIcon('layout-template');
+							// サブメニューは非公開APIのため、使えない場合はメニューに直接並べる
+							const submenuItem = item as MenuItem & Partial<SubmenuMenuItem>;
+							const submenu = typeof submenuItem.setSubmenu === 'function'
+								? submenuItem.setSubmenu()
+								: menu;
+							this.settings.templates.forEach((template) => {
+								submenu.addItem((subItem) => {
+									subItem
+										.setTitle(template.name)
+										.onClick(async () => {
+											this.askChatGPT(editor, template);
+										});
+								});
+							});
+						});
+					}
+				}
+			})
+		);
 
-			// アシスタントメッセージを追加
-			this.displayMessages.push({ role: 'assistant', content: response });
-			this.messages.push({ role: 'assistant', content: response });
+		// エディタメニューにコマンド追加（モバイル対応）
+		this.addCommand({
+			id: 'ask-chatgpt',
+			name: 'Ask ChatGPT about selected text',
+			checkCallback: (checking: boolean) => {
+				const markdownView = this.app.workspace.getActiveViewOfType(MarkdownView);
+				if (markdownView) {
+					if (!checking) {
+						const editor = markdownView.editor;
+						this.askChatGPT(editor);
+					}
+					return true;
+				}
+				return false;
+			},
+		});
 
-			// UI更新
-			this.renderConversation();
-		} catch (error) {
-			new Notice(`Error: ${error.message}`);
-			console.error('ChatGPT Error:', error);
+		// カスタムプロンプトで質問（モバイル対応）
+		this.addCommand({
+			id: 'ask-chatgpt-custom',
+			name: 'Ask ChatGPT with custom prompt',
+			checkCallback: (checking: boolean) => {
+				const markdownView = this.app.workspace.getActiveViewOfType(MarkdownView);
+				if (markdownView) {
+					if (!checking) {
+						const editor = markdownView.editor;
+						this.askChatGPTCustom(editor);
+					}
+					return true;
+				}
+				return false;
+			},
+		});
 
-			// エラー時は最後のユーザーメッセージを削除（再試行可能に）
-			this.displayMessages.pop();
-			this.messages.pop();
-			this.inputEl.value = userInput;
-		} finally {
-			this.setLoading(false);
-			this.inputEl.focus();
-		}
-	}
+		// テンプレートごとのコマンド
+		this.registerTemplateCommands();
 
-	renderConversation() {
-		this.conversationEl.empty();
+		// サイドパネルでチャットを開く
+		this.addCommand({
+			id: 'open-chatgpt-chat-panel',
+			name: 'Open ChatGPT chat panel',
+			callback: async () => {
+				const view = await this.activateChatView();
+				view?.focusInput();
+			},
+		});
 
-		if (this.displayMessages.length === 0) {
-			const emptyMsg = this.conversationEl.createDiv('chatgpt-empty-message');
-			emptyMsg.textContent = '質問を入力して会話を始めましょう';
-			return;
-		}
+		// 保存した会話を再開（会話ノートを開いている場合はそのノート、それ以外は一覧から選択）
+		this.addCommand({
+			id: 'resume-chatgpt-conversation',
+			name: 'Resume ChatGPT conversation',
+			callback: () => {
+				const activeFile = this.app.workspace.getActiveFile();
+				if (activeFile && this.chatHistory.isChatNote(activeFile)) {
+					this.resumeConversation(activeFile);
+				} else {
+					new ChatNoteSuggestModal(this.app, this, (file) => this.resumeConversation(file)).open();
+				}
+			},
+		});
 
-		this.displayMessages.forEach((msg) => {
-			const messageEl = this.conversationEl.createDiv(`chatgpt-message chatgpt-message-${msg.role}`);
+		// 使用量の履歴と内訳を表示
+		this.addCommand({
+			id: 'open-chatgpt-usage',
+			name: 'Open ChatGPT usage',
+			callback: () => this.activateUsageView(),
+		});
 
-			const iconEl = messageEl.createSpan('chatgpt-message-icon');
-			iconEl.textContent = msg.role === 'user' ? '💬' : '🤖';
+		// 選択テキストまたは入力したプロンプトから画像を生成
+		this.addCommand({
+			id: 'generate-image',
+			name: 'Generate image from selection/prompt',
+			editorCallback: (editor: Editor) => {
+				new ImageGenerationModal(this.app, this, editor.getSelection(), (prompt, options) => {
+					this.generateImageIntoNote(editor, prompt, options);
+				}).open();
+			},
+		});
 
-			const contentEl = messageEl.createDiv('chatgpt-message-content');
-			contentEl.textContent = msg.content;
+		// 選択範囲の書き換えを提案し、差分を確認して反映
+		this.addCommand({
+			id: 'rewrite-selection',
+			name: 'Rewrite selection (review changes)',
+			editorCallback: (editor: Editor) => this.promptRewrite(editor),
 		});
 
-		// スマート自動スクロール：ユーザーが最下部付近にいる場合のみ自動スクロール
-		if (this.autoScroll) {
-			this.conversationEl.scrollTop = this.conversationEl.scrollHeight;
-		}
-	}
+		// テンプレートをフォルダ・タグ・検索結果のノートにまとめて実行
+		this.addCommand({
+			id: 'run-template-batch',
+			name: 'Run template on multiple notes',
+			callback: () => new BatchModal(this.app, this).open(),
+		});
 
-	setLoading(loading: boolean) {
-		this.isLoading = loading;
-		this.sendBtn.disabled = loading;
-		this.insertBtn.disabled = loading;
-		this.inputEl.disabled = loading;
+		// 要約・タグ・エイリアス・カテゴリをFrontmatterに追加
+		this.addCommand({
+			id: 'enrich-note-metadata',
+			name: 'Enrich note metadata',
+			checkCallback: (checking: boolean) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file || file.extension !== 'md') return false;
+				if (!checking) this.enrichNoteMetadata(file);
+				return true;
+			},
+		});
 
-		if (loading) {
-			this.sendBtn.textContent = '送信中...';
-			// ローディングインジケータを表示
-			const loadingMsg = this.conversationEl.createDiv('chatgpt-message chatgpt-message-loading');
-			loadingMsg.innerHTML = '<span class="chatgpt-message-icon">🤖</span><div class="chatgpt-message-content">考え中...</div>';
-			// スマート自動スクロール：ユーザーが最下部付近にいる場合のみ自動スクロール
-			if (this.autoScroll) {
-				this.conversationEl.scrollTop = this.conversationEl.scrollHeight;
-			}
-		} else {
-			this.sendBtn.textContent = '送信';
-			// ローディングインジケータを削除
-			const loadingMsg = this.conversationEl.querySelector('.chatgpt-message-loading');
-			if (loadingMsg) loadingMsg.remove();
-		}
-	}
+		this.addCommand({
+			id: 'enrich-metadata-batch',
+			name: 'Enrich metadata of multiple notes',
+			callback: () => new BatchModal(this.app, this, METADATA_BATCH_ID).open(),
+		});
 
-	async handleInsertAndClose() {
-		if (this.displayMessages.length === 0) {
-			new Notice('会話履歴がありません');
-			return;
-		}
+		// ノートに埋め込まれた音声を文字起こし
+		this.addCommand({
+			id: 'transcribe-audio',
+			name: 'Transcribe audio in this note',
+			editorCallback: (editor: Editor, view) => {
+				if (view.file) this.transcribeEmbeddedAudio(editor, view.file);
+			},
+		});
 
-		// 会話履歴を整形してMarkdownに変換
-		let conversationText = `\n\n---\n\n**Selected Context:**\n${this.selectedText}\n\n**ChatGPT Conversation:**\n\n`;
+		// 音声ファイルのメニューから文字起こし
+		this.registerEvent(
+			this.app.workspace.on('file-menu', (menu, file) => {
+				if (!(file instanceof TFile) || !AUDIO_MIME_TYPES[file.extension.toLowerCase()]) return;
+				menu.addItem((item) => {
+					item
+						.setTitle('🎙️ Transcribe with ChatGPT')
+						.setIcon('mic')
+						.onClick(() => this.transcribeAudioFile(file));
+				});
+			})
+		);
 
-		this.displayMessages.forEach((msg, index) => {
-			const questionNum = Math.floor(index / 2) + 1;
-			if (msg.role === 'user') {
-				conversationText += `**Q${questionNum}:** ${msg.content}\n\n`;
-			} else {
-				conversationText += `**A${questionNum}:** ${msg.content}\n\n`;
-			}
+		// vault全体から関連する箇所を検索して質問
+		this.addCommand({
+			id: 'ask-the-vault',
+			name: 'Ask the vault',
+			editorCallback: (editor: Editor) => {
+				new CustomPromptModal(this.app, (question) => {
+					this.askTheVault(editor, question);
+				}, undefined, 'Ask the vault').open();
+			},
 		});
 
-		// ドキュメントの最後に挿入
-		const lastLine = this.editor.lastLine();
-		const lastLineLength = this.editor.getLine(lastLine).length;
+		// インデックスの更新（変更されたノートのみ）と作り直し
+		this.addCommand({
+			id: 'update-vault-index',
+			name: 'Update vault index',
+			callback: () => this.updateVaultIndex(false),
+		});
+
+		this.addCommand({
+			id: 'rebuild-vault-index',
+			name: 'Rebuild vault index',
+			callback: () => this.updateVaultIndex(true),
+		});
 
-		this.editor.replaceRange(
-			conversationText,
-			{ line: lastLine, ch: lastLineLength }
+		// ノートの変更に合わせてインデックスを更新（有効な場合のみ）
+		this.registerEvent(
+			this.app.vault.on('modify', (file) => {
+				if (this.settings.vaultIndexEnabled && file instanceof TFile) {
+					this.vaultIndex.queueFile(file);
+				}
+			})
+		);
+		this.registerEvent(
+			this.app.vault.on('delete', (file) => {
+				if (this.settings.vaultIndexEnabled && file instanceof TFile) {
+					this.vaultIndex.removeFile(file.path);
+				}
+			})
+		);
+		this.registerEvent(
+			this.app.vault.on('rename', (file, oldPath) => {
+				if (this.settings.vaultIndexEnabled && file instanceof TFile) {
+					this.vaultIndex.renameFile(file, oldPath);
+				}
+			})
 		);
 
-		// 挿入した位置までスクロール
-		const newLastLine = this.editor.lastLine();
-		this.editor.setCursor({ line: newLastLine, ch: 0 });
+		// APIリクエストの記録と不具合報告用のレポート
+		this.addCommand({
+			id: 'show-request-traces',
+			name: 'Show API request traces',
+			callback: () => new TraceViewModal(this.app, this).open(),
+		});
 
-		new Notice('会話履歴を挿入しました！');
+		this.addCommand({
+			id: 'export-debug-report',
+			name: 'Export debug report',
+			callback: () => this.debugLogger.exportReport(),
+		});
 
-		// モーダルを閉じる
-		this.close();
+		// 設定タブ追加
+		this.addSettingTab(new ChatGPTSettingTab(this.app, this));
 	}
 
-	async onClose() {
-		const { contentEl } = this;
-		contentEl.empty();
+	showFloatingButton() {
+		if (this.floatingButton) return;
 
-		// リーディングモードに戻す
-		if (this.readingModeInfo && this.readingModeInfo.wasInReadingMode) {
-			await new Promise(resolve => setTimeout(resolve, 100));
-			await this.readingModeInfo.view.setState(
-				{ ...this.readingModeInfo.state, mode: 'preview' },
-				{ history: false }
-			);
-		}
-	}
-}
+		this.debugLogger.debug('ui', '💬 Creating floating button');
 
-// カスタムプロンプト入力モーダル（旧バージョン、互換性のため残す）
-class CustomPromptModal extends Modal {
-	onSubmit: (prompt: string) => void;
-	focusInterval: number | null = null;
-	readingModeInfo?: {
-		view: MarkdownView;
-		state: any;
-		wasInReadingMode: boolean;
-	};
+		this.floatingButton = document.body.createDiv('chatgpt-floating-button');
+		this.floatingButton.innerHTML = '💬';
+		this.floatingButton.setAttribute('aria-label', 'Ask ChatGPT');
 
-	constructor(app: App, onSubmit: (prompt: string) => void, readingModeInfo?: { view: MarkdownView; state: any; wasInReadingMode: boolean }) {
-		super(app);
-		this.onSubmit = onSubmit;
-		this.readingModeInfo = readingModeInfo;
-	}
+		this.floatingButton.addEventListener('click', async () => {
+			// キャッシュをローカル変数にコピー（確実に取得）
+			const cachedText = this.selectedTextCache;
+			this.debugLogger.debug('ui', '🖱️ Floating button clicked', {
+				cacheLength: cachedText.length,
+				preview: cachedText.substring(0, 50)
+			});
 
-	onOpen() {
-		const { contentEl } = this;
-		contentEl.empty();
+			const markdownView = this.app.workspace.getActiveViewOfType(MarkdownView);
+			if (!markdownView) {
+				new Notice('Please open a note first');
+				return;
+			}
 
-		// ChatGPTモーダル専用クラスを追加（他のモーダルに影響しないように）
-		this.modalEl.addClass('chatgpt-custom-modal');
+			if (!cachedText || !cachedText.trim()) {
+				new Notice('📝 Please select text first');
+				return;
+			}
 
-		contentEl.createEl('h2', { text: 'Custom prompt for ChatGPT' });
+			// キャッシュから取得した選択テキストでモーダルを開く
+			const editor = markdownView.editor;
+			await this.askChatGPTCustom(editor, cachedText);
 
-		const inputEl = contentEl.createEl('textarea', {
-			placeholder: 'Enter your question or instruction...',
+			// 使用後にキャッシュをクリア
+			this.selectedTextCache = '';
 		});
-		inputEl.style.width = '100%';
-		inputEl.style.minHeight = '100px';
-		inputEl.style.marginBottom = '10px';
-
-		// モバイルでのカーソル点滅を改善するための属性
-		inputEl.setAttribute('inputmode', 'text');
-		inputEl.setAttribute('autocomplete', 'off');
-		inputEl.setAttribute('autocorrect', 'off');
-		inputEl.setAttribute('spellcheck', 'false');
+	}
 
-		const buttonContainer = contentEl.createDiv();
-		buttonContainer.style.textAlign = 'right';
+	handleSelectionChange() {
+		const selection = window.getSelection();
+		const markdownView = this.app.workspace.getActiveViewOfType(MarkdownView);
 
-		const submitBtn = buttonContainer.createEl('button', { text: 'Ask' });
-		submitBtn.addEventListener('click', () => {
-			const prompt = inputEl.value.trim();
-			if (prompt) {
-				this.onSubmit(prompt);
-				this.close();
-			} else {
-				new Notice('Please enter a prompt');
-			}
+		this.debugLogger.debug('ui', '📝 Selection changed', {
+			length: selection?.toString().length || 0
 		});
 
-		// フォーカスが失われた時に自動的に戻す（モバイル対応）
-		inputEl.addEventListener('blur', () => {
-			// ボタンクリック時以外はフォーカスを戻す
-			setTimeout(() => {
-				if (this.modalEl.isShown()) {
-					inputEl.focus();
-				}
-			}, 10);
-		});
+		if (selection && selection.toString().trim() && markdownView) {
+			// キャッシュに保存
+			this.selectedTextCache = selection.toString().trim();
+			this.debugLogger.debug('ui', '💾 Text cached', {
+				cacheLength: this.selectedTextCache.length
+			});
+			this.showFloatingButton();
+		} else {
+			// 選択解除時はキャッシュもクリア
+			this.selectedTextCache = '';
+			this.hideFloatingButton();
+		}
+	}
 
-		// 入力欄に確実にフォーカス（モバイル対応）
-		// 複数のタイミングでフォーカスを試みることで確実に保持
-		inputEl.focus();
+	hideFloatingButton() {
+		if (this.floatingButton) {
+			this.floatingButton.remove();
+			this.floatingButton = null;
+		}
+	}
 
-		// レンダリング完了後に再度フォーカス
-		setTimeout(() => {
-			inputEl.focus();
-		}, 50);
+	// テンプレートを渡した場合は、テンプレートのプロンプトと上書き設定で質問する
+	async askChatGPT(editor: Editor, template?: PromptTemplate) {
+		// リーディングモードかチェックして自動切り替え
+		const markdownView = this.app.workspace.getActiveViewOfType(MarkdownView);
+		if (!markdownView) {
+			new Notice('Please open a note first');
+			return;
+		}
 
-		// モーダルアニメーション完了後にもう一度フォーカス
-		setTimeout(() => {
-			inputEl.focus();
-		}, 150);
+		const state = markdownView.getState();
+		const wasInReadingMode = state.mode === 'preview';
 
-		// カーソル点滅を維持するため、定期的にフォーカスを再適用（モバイル対応）
-		// 500ms間隔でフォーカスをチェック・維持
-		this.focusInterval = window.setInterval(() => {
-			if (document.activeElement !== inputEl && this.modalEl.isShown()) {
-				inputEl.focus();
-			}
-		}, 500);
-	}
+		// 編集モードに切り替え
+		if (wasInReadingMode) {
+			await markdownView.setState({ ...state, mode: 'source' }, { history: false });
+			// モード切り替えを待つ
+			await new Promise(resolve => setTimeout(resolve, 100));
+		}
 
-	async onClose() {
-		const { contentEl } = this;
-		contentEl.empty();
+		let selectedText = editor.getSelection();
 
-		// フォーカス維持インターバルをクリア（メモリリーク防止）
-		if (this.focusInterval !== null) {
-			window.clearInterval(this.focusInterval);
-			this.focusInterval = null;
-		}
+		// {selection}を使わないテンプレートは選択不要
+		const needsSelection = !template || template.userPrompt.includes('{selection}');
 
-		// モーダルキャンセル時もリーディングモードに戻す
-		if (this.readingModeInfo && this.readingModeInfo.wasInReadingMode) {
-			await new Promise(resolve => setTimeout(resolve, 100));
-			await this.readingModeInfo.view.setState(
-				{ ...this.readingModeInfo.state, mode: 'preview' },
-				{ history: false }
-			);
+		// モバイルで選択が解除される問題に対応：クリップボードから取得
+		if (needsSelection && (!selectedText || selectedText.trim() === '')) {
+			try {
+				selectedText = await navigator.clipboard.readText();
+				if (selectedText && selectedText.trim()) {
+					new Notice('Using text from clipboard');
+				} else {
+					new Notice('Please select text or copy it to clipboard first');
+					return;
+				}
+			} catch (e) {
+				new Notice('Please select text first');
+				return;
+			}
 		}
-	}
-}
 
-// 設定画面
-class ChatGPTSettingTab extends PluginSettingTab {
-	plugin: ChatGPTPlugin;
+		if (!this.hasApiKey()) {
+			new Notice(`Please set your ${this.getActiveProvider().name} API key in settings`);
+			return;
+		}
 
-	constructor(app: App, plugin: ChatGPTPlugin) {
-		super(app, plugin);
-		this.plugin = plugin;
-	}
+		// テンプレートの変数を展開
+		const prompt = template
+			? await this.expandTemplateVariables(template.userPrompt, selectedText, markdownView.file)
+			: selectedText;
 
-	displayUsageStats(containerEl: HTMLElement): void {
-		const now = new Date();
-		const currentMonth = now.getMonth();
-		const currentYear = now.getFullYear();
+		// 挿入先（テンプレートごとの設定があれば優先）
+		const [formatPrefix, formatSuffix] = this.splitResponseFormat();
+		const question = selectedText || prompt;
+		const inserter = new ResponseInserter(
+			this,
+			editor,
+			template?.insertionMode || this.settings.askInsertionMode,
+			markdownView.file,
+			{
+				title: template ? template.name : question.split('\n')[0].substring(0, 60),
+				question,
+				formatPrefix,
+				formatSuffix,
+			}
+		);
 
-		// 今月のデータのみフィルタリング
-		const thisMonthRecords = this.plugin.settings.usageHistory.filter((record) => {
-			const recordDate = new Date(record.date);
-			return (
-				recordDate.getMonth() === currentMonth &&
-				recordDate.getFullYear() === currentYear
-			);
-		});
+		// 設定で有効なソースからノートのコンテキストを組み立てる（選択テキストは質問として送るので除く）
+		const context = markdownView.file
+			? await this.contextBuilder.build(
+				selectedText,
+				markdownView.file.path,
+				this.settings.contextSources,
+				this.settings.contextTokenBudget,
+				false
+			)
+			: '';
+
+		// 選択テキストとコンテキストに埋め込まれた画像（非対応モデルでは送信時に外す）
+		const images = markdownView.file && this.settings.sendImages
+			? await this.contextBuilder.resolveImages(`${prompt}\n${context}`, markdownView.file.path)
+			: [];
+
+		// 停止ボタン付きの通知（ストリーミング中に中断できるように）
+		const controller = new AbortController();
+		const stopNotice = this.showStopNotice(template ? `${template.name}...` : 'Asking ChatGPT...', controller);
 
-		// モデル別に集計
-		const modelStats: {
-			[model: string]: {
-				tokens: number;
-				cost: number;
-				count: number;
+		try {
+			// 構造化出力のテンプレートは回答を検証してから整形して反映する
+			if (template?.outputSchema?.trim()) {
+				await this.runStructuredTemplate(template, prompt, inserter, markdownView.file, {
+					signal: controller.signal,
+					context,
+					images,
+					source: template.name,
+					notePath: markdownView.file?.path,
+				});
+				return;
+			}
+
+			// 受信した部分テキストを逐次書き込む
+			// 受信中に別のノートを開いた場合は、書き込み先が変わったことを停止ボタンの通知にも表示する
+			inserter.onDetach = () => {
+				stopNotice.setMessage(this.buildStopNoticeMessage(
+					`${template ? template.name : 'Asking ChatGPT'}... (the answer will be saved to ${markdownView.file?.basename || 'the note'})`,
+					controller
+				));
 			};
-		} = {};
+			const response = await this.callOpenAI(prompt, {
+				onDelta: (delta) => inserter.write(delta),
+				signal: controller.signal,
+				context,
+				images,
+				source: template ? template.name : 'Ask ChatGPT',
+				notePath: markdownView.file?.path,
+				...this.getTemplateOverrides(template),
+			});
 
-		let totalCost = 0;
-		let totalTokens = 0;
+			const inserted = await inserter.finish(response);
 
-		thisMonthRecords.forEach((record) => {
-			if (!modelStats[record.model]) {
-				modelStats[record.model] = { tokens: 0, cost: 0, count: 0 };
+			if (controller.signal.aborted) {
+				new Notice(inserted ? 'Response stopped (partial text kept)' : 'Response stopped');
+			} else if (inserter.detached && markdownView.file) {
+				new Notice(`Response saved to ${markdownView.file.basename}`);
+			} else {
+				new Notice('Response inserted!');
 			}
-			modelStats[record.model].tokens += record.totalTokens;
-			modelStats[record.model].cost += record.estimatedCost;
-			modelStats[record.model].count += 1;
+		} catch (error) {
+			new Notice(`Error: ${error.message}`);
+			console.error('ChatGPT Error:', error);
+		} finally {
+			stopNotice.hide();
 
-			totalCost += record.estimatedCost;
-			totalTokens += record.totalTokens;
+			// リーディングモードに戻す
+			if (wasInReadingMode) {
+				await new Promise(resolve => setTimeout(resolve, 500));
+				await markdownView.setState({ ...state, mode: 'preview' }, { history: false });
+			}
+		}
+	}
+
+	// 構造化出力のテンプレートを実行し、選んだ形式でノートに反映する
+	// スキーマに合わない場合はエラーを表示し、再実行できるようにする
+	async runStructuredTemplate(
+		template: PromptTemplate,
+		prompt: string,
+		inserter: ResponseInserter,
+		file: TFile | null,
+		options: ChatCallOptions
+	) {
+		const overrides = this.getTemplateOverrides(template);
+		const response = await this.callOpenAI(prompt, { ...options, ...overrides });
+		if (options.signal?.aborted) {
+			new Notice('Response stopped');
+			return;
+		}
+
+		let value: any;
+		try {
+			value = parseStructuredOutput(response, overrides.jsonSchema);
+		} catch (error) {
+			if (!(error instanceof StructuredOutputError)) throw error;
+			new StructuredOutputErrorModal(this.app, template.name, error, () =>
+				this.retryStructuredTemplate(template, prompt, inserter, file, options)
+			).open();
+			return;
+		}
+
+		if (template.outputFormat === 'frontmatter') {
+			if (!file) throw new Error('Writing properties needs a saved note');
+			const count = await this.applyStructuredProperties(file, value);
+			new Notice(`Updated ${count} ${count === 1 ? 'property' : 'properties'}`);
+			return;
+		}
+
+		const inserted = await inserter.finish(renderStructuredOutput(value, template.outputFormat || 'json'));
+		new Notice(inserted ? 'Response inserted!' : 'The response has no items to insert');
+	}
+
+	async retryStructuredTemplate(
+		template: PromptTemplate,
+		prompt: string,
+		inserter: ResponseInserter,
+		file: TFile | null,
+		options: ChatCallOptions
+	) {
+		const controller = new AbortController();
+		const stopNotice = this.showStopNotice(`${template.name}...`, controller);
+		try {
+			await this.runStructuredTemplate(template, prompt, inserter, file, { ...options, signal: controller.signal });
+		} catch (error) {
+			new Notice(`Error: ${error.message}`);
+			console.error('ChatGPT Error:', error);
+		} finally {
+			stopNotice.hide();
+		}
+	}
+
+	// 構造化出力のプロパティをFrontmatterに書き込む（同名のプロパティは上書き）
+	async applyStructuredProperties(file: TFile, value: any): Promise<number> {
+		const entries = Object.entries(value as Record<string, any>).filter(([, v]) => v !== undefined && v !== null);
+		await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+			entries.forEach(([key, v]) => {
+				frontmatter[key] = v;
+			});
 		});
+		return entries.length;
+	}
 
-		// 使用料金セクション
-		const usageSection = containerEl.createDiv('chatgpt-usage-section');
-		usageSection.createEl('h3', { text: '📊 今月の利用料金' });
+	// メタデータを生成し、Frontmatterの変更をプレビューしてから反映する
+	async enrichNoteMetadata(file: TFile) {
+		if (!this.hasApiKey()) {
+			new Notice(`Please set your ${this.getActiveProvider().name} API key in settings`);
+			return;
+		}
 
-		const statsSummary = usageSection.createDiv('chatgpt-usage-summary');
-		statsSummary.innerHTML = `
-			<div style="background-color: var(--background-secondary); padding: 15px; border-radius: 8px; margin-bottom: 15px;">
-				<div style="font-size: 24px; font-weight: bold; color: var(--text-accent);">
-					$${totalCost.toFixed(4)}
-				</div>
-				<div style="margin-top: 5px; color: var(--text-muted); font-size: 14px;">
-					合計 ${totalTokens.toLocaleString()} トークン / ${thisMonthRecords.length} リクエスト
-				</div>
-			</div>
-		`;
+		const controller = new AbortController();
+		const stopNotice = this.showStopNotice('Generating metadata...', controller);
+		try {
+			const metadata = await this.generateNoteMetadata(file, { signal: controller.signal });
+			if (controller.signal.aborted) return;
 
-		// モデル別内訳
-		if (Object.keys(modelStats).length > 0) {
-			const breakdownEl = usageSection.createDiv('chatgpt-usage-breakdown');
-			breakdownEl.createEl('strong', { text: 'モデル別内訳:' });
-			breakdownEl.style.marginTop = '10px';
+			const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+			const changes = mergeNoteMetadata(frontmatter, metadata);
+			if (changes.length === 0) {
+				new Notice('The frontmatter already has this metadata');
+				return;
+			}
 
-			const table = breakdownEl.createEl('table');
-			table.style.width = '100%';
-			table.style.marginTop = '10px';
-			table.style.borderCollapse = 'collapse';
+			new MetadataPreviewModal(this.app, file, changes, async (keys) => {
+				// Frontmatterが壊れている場合などはprocessFrontMatterが失敗する
+				try {
+					await this.applyNoteMetadata(file, metadata, keys);
+					new Notice('Metadata updated');
+				} catch (error) {
+					new Notice(`Error: ${error.message}`);
+					console.error('ChatGPT Error:', error);
+				}
+			}).open();
+		} catch (error) {
+			if (!controller.signal.aborted) {
+				new Notice(`Error: ${error.message}`);
+				console.error('ChatGPT Error:', error);
+			}
+		} finally {
+			stopNotice.hide();
+		}
+	}
 
-			const headerRow = table.createEl('tr');
-			headerRow.innerHTML = `
-				<th style="text-align: left; padding: 8px; border-bottom: 1px solid var(--background-modifier-border);">モデル</th>
-				<th style="text-align: right; padding: 8px; border-bottom: 1px solid var(--background-modifier-border);">リクエスト</th>
-				<th style="text-align: right; padding: 8px; border-bottom: 1px solid var(--background-modifier-border);">トークン</th>
-				<th style="text-align: right; padding: 8px; border-bottom: 1px solid var(--background-modifier-border);">コスト</th>
-			`;
+	// vaultで使われているタグ（多い順）。getTagsは非公開APIのため、無い場合は各ノートから集計する
+	getTagVocabulary(limit: number = 200): string[] {
+		const { metadataCache, vault } = this.app;
+		let counts: Record<string, number> | undefined = (metadataCache as any).getTags?.();
+		if (!counts) {
+			counts = {};
+			vault.getMarkdownFiles().forEach((file) => {
+				const cache = metadataCache.getFileCache(file);
+				(cache ? getAllTags(cache) || [] : []).forEach((tag) => {
+					counts![tag] = (counts![tag] || 0) + 1;
+				});
+			});
+		}
+		return Object.entries(counts)
+			.sort((a, b) => b[1] - a[1])
+			.slice(0, limit)
+			.map(([tag]) => tag.replace(/^#/, ''));
+	}
+
+	// メタデータ生成のプロンプト（本文はコンテキストのトークン予算に収める）
+	async buildMetadataPrompt(file: TFile): Promise<string> {
+		const content = await this.app.vault.cachedRead(file);
+		const body = content.replace(/^---\n[\s\S]*?\n---\n/, '').trim();
+		const vocabulary = this.getTagVocabulary();
+		return [
+			`Existing tags: ${vocabulary.length > 0 ? vocabulary.join(', ') : '(none)'}`,
+			`Title: ${file.basename}`,
+			trimToTokens(body, this.settings.contextTokenBudget),
+		].join('\n\n');
+	}
+
+	async generateNoteMetadata(file: TFile, options: ChatCallOptions = {}): Promise<NoteMetadata> {
+		const response = await this.callOpenAI(await this.buildMetadataPrompt(file), {
+			source: 'Enrich metadata',
+			...options,
+			systemPrompt: METADATA_SYSTEM_PROMPT,
+			notePath: file.path,
+		});
+		return parseNoteMetadata(response);
+	}
+
+	// 反映時のFrontmatterに対してマージし直す（プレビュー中の編集も残す）
+	async applyNoteMetadata(file: TFile, metadata: NoteMetadata, keys?: Set<string>) {
+		await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+			mergeNoteMetadata(frontmatter, metadata).forEach((change) => {
+				if (!keys || keys.has(change.key)) {
+					frontmatter[change.key] = change.after;
+				}
+			});
+		});
+	}
+
+	// 書き換えの指示を入力してもらう
+	promptRewrite(editor: Editor) {
+		if (!editor.getSelection().trim()) {
+			new Notice('Please select text to rewrite');
+			return;
+		}
+		new CustomPromptModal(this.app, (instruction) => {
+			this.rewriteSelection(editor, instruction);
+		}, undefined, 'Rewrite selection').open();
+	}
+
+	// 選択範囲の書き換えをモデルに提案させ、差分を確認してから反映する
+	async rewriteSelection(editor: Editor, instruction: string) {
+		const original = editor.getSelection();
+		const from = editor.posToOffset(editor.getCursor('from'));
+		const notePath = this.app.workspace.getActiveViewOfType(MarkdownView)?.file?.path;
+
+		if (!this.hasApiKey()) {
+			new Notice(`Please set your ${this.getActiveProvider().name} API key in settings`);
+			return;
+		}
+
+		const controller = new AbortController();
+		const stopNotice = this.showStopNotice('Rewriting...', controller);
+
+		try {
+			const response = await this.callOpenAI(`Instruction: ${instruction}\n\nText:\n${original}`, {
+				systemPrompt: 'Rewrite the text according to the instruction. Keep the Markdown formatting and the language of the text unless told otherwise. Reply with the revised text only, without explanations or code fences.',
+				signal: controller.signal,
+				source: 'Rewrite',
+				notePath,
+			});
+			if (controller.signal.aborted) {
+				new Notice('Rewrite stopped');
+				return;
+			}
+
+			// 回答はtrimされるため、元の前後の空白・改行を保つ
+			const revised = original.match(/^\s*/)![0] +
+				response.replace(/^```[\w-]*\n([\s\S]*?)\n```$/, '$1').trim() +
+				original.match(/\s*$/)![0];
+			if (revised === original) {
+				new Notice('No changes suggested');
+				return;
+			}
+
+			new RewriteDiffModal(this.app, diffWords(original, revised), (text) => {
+				this.applyRewrite(editor, original, from, text);
+			}).open();
+		} catch (error) {
+			new Notice(`Error: ${error.message}`);
+			console.error('ChatGPT Error:', error);
+		} finally {
+			stopNotice.hide();
+		}
+	}
+
+	// 書き換えを1回の置き換え（1回のUndo）で反映する
+	// 待っている間に他の場所が編集されていても、元のテキストの位置を探し直す
+	applyRewrite(editor: Editor, original: string, from: number, text: string): boolean {
+		const content = editor.getValue();
+		let index = content.substring(from, from + original.length) === original ? from : -1;
+		if (index < 0) {
+			// 元の位置に最も近い出現箇所
+			for (let pos = content.indexOf(original); pos >= 0; pos = content.indexOf(original, pos + 1)) {
+				if (index < 0 || Math.abs(pos - from) < Math.abs(index - from)) index = pos;
+			}
+		}
+		if (index < 0) {
+			new Notice('The original text was edited, so the rewrite could not be applied');
+			return false;
+		}
+
+		editor.replaceRange(text, editor.offsetToPos(index), editor.offsetToPos(index + original.length));
+		new Notice('Rewrite applied');
+		return true;
+	}
+
+	// 画像を生成してvaultに保存し、カーソル位置に埋め込む
+	async generateImageIntoNote(editor: Editor, prompt: string, options: ImageGenerationOptions) {
+		const sourcePath = this.app.workspace.getActiveViewOfType(MarkdownView)?.file?.path || '';
+
+		if (!this.hasApiKey()) {
+			new Notice(`Please set your ${this.getActiveProvider().name} API key in settings`);
+			return;
+		}
+
+		// 生成中に入力が続いても位置がずれないよう、挿入位置はオフセットで覚えておく
+		const hasSelection = editor.somethingSelected();
+		const insertOffset = editor.posToOffset(editor.getCursor('to'));
+		const controller = new AbortController();
+		const stopNotice = this.showStopNotice('Generating image...', controller);
+
+		try {
+			const result = await this.generateImage(prompt, options, controller.signal, sourcePath);
+			const file = await this.saveGeneratedImage(result.data, sourcePath, {
+				prompt,
+				revisedPrompt: result.revisedPrompt,
+				model: result.model,
+				...options,
+				cost: result.cost,
+			});
+
+			const link = `!${this.app.fileManager.generateMarkdownLink(file, sourcePath)}`;
+			const source = this.app.vault.getAbstractFileByPath(sourcePath);
+			if (this.editorShowsFile(editor, sourcePath)) {
+				const position = editor.offsetToPos(Math.min(insertOffset, editor.getValue().length));
+				editor.replaceRange(hasSelection ? `\n\n${link}\n` : link, position);
+			} else if (source instanceof TFile) {
+				// 生成中に別のノートを開いた場合は、元のノートの末尾に追加する
+				await this.app.vault.process(source, (data) => `${data.trimEnd()}\n\n${link}\n`);
+			}
+			new Notice(`Image saved to ${file.path}`);
+		} catch (error) {
+			if (controller.signal.aborted) {
+				new Notice('Image generation cancelled');
+			} else {
+				new Notice(`Error: ${error.message}`);
+				console.error('ChatGPT Error:', error);
+			}
+		} finally {
+			stopNotice.hide();
+		}
+	}
+
+	// エディタがまだ指定したノートを表示しているか（時間のかかる処理の間に別のノートを開いた場合はfalse）
+	editorShowsFile(editor: Editor, path: string): boolean {
+		return this.app.workspace.getLeavesOfType('markdown').some((leaf) =>
+			leaf.view instanceof MarkdownView && leaf.view.editor === editor && leaf.view.file?.path === path
+		);
+	}
+
+	// ノートに埋め込まれた音声（![[memo.m4a]]）を選んで文字起こしし、埋め込みの下に挿入
+	// カーソル行に埋め込みがあればそれを、1つだけならそれを、複数あれば選択してもらう
+	transcribeEmbeddedAudio(editor: Editor, note: TFile) {
+		const embeds = this.getAudioEmbeds(note);
+		if (embeds.length === 0) {
+			new Notice('This note has no embedded audio files');
+			return;
+		}
+
+		const cursorLine = editor.getCursor().line;
+		const embed = embeds.find((e) => e.line === cursorLine) || (embeds.length === 1 ? embeds[0] : null);
+		if (embed) {
+			this.transcribeIntoNote(embed.file, note, editor, embed.original);
+			return;
+		}
+		new AudioEmbedSuggestModal(this.app, embeds, (chosen) => {
+			this.transcribeIntoNote(chosen.file, note, editor, chosen.original);
+		}).open();
+	}
+
+	// ファイルメニューから：開いているノートに埋め込まれていればその下に、無ければ新しいノートに書き出す
+	async transcribeAudioFile(audio: TFile) {
+		const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+		if (view?.file) {
+			const embed = this.getAudioEmbeds(view.file).find((e) => e.file === audio);
+			if (embed) {
+				await this.transcribeIntoNote(audio, view.file, view.editor, embed.original);
+				return;
+			}
+		}
+		await this.transcribeIntoNote(audio, null, null, null);
+	}
+
+	getAudioEmbeds(note: TFile): Array<{ file: TFile; original: string; line: number }> {
+		const embeds = this.app.metadataCache.getFileCache(note)?.embeds || [];
+		const result: Array<{ file: TFile; original: string; line: number }> = [];
+		embeds.forEach((embed) => {
+			const file = this.app.metadataCache.getFirstLinkpathDest(embed.link.split('#')[0], note.path);
+			if (file && AUDIO_MIME_TYPES[file.extension.toLowerCase()]) {
+				result.push({ file, original: embed.original, line: embed.position.start.line });
+			}
+		});
+		return result;
+	}
+
+	// 文字起こし（と設定した後処理）を行い、埋め込みの下または新しいノートに書き込む
+	async transcribeIntoNote(audio: TFile, note: TFile | null, editor: Editor | null, embedText: string | null) {
+		if (!this.hasApiKey()) {
+			new Notice(`Please set your ${this.getActiveProvider().name} API key in settings`);
+			return;
+		}
+
+		const controller = new AbortController();
+		const progress = this.showStopNotice(`Transcribing ${audio.name}...`, controller);
+		const setProgress = (message: string) => {
+			progress.setMessage(this.buildStopNoticeMessage(message, controller));
+		};
+
+		try {
+			const transcript = await this.transcribeAudio(audio, controller.signal, (done, total) => {
+				setProgress(total > 1 ? `Transcribing ${audio.name}... ${done}/${total}` : `Transcribing ${audio.name}...`);
+			});
+			let output = `**Transcript:**\n${transcript}`;
+
+			const followUp = this.settings.transcriptFollowUp;
+			if (followUp !== 'none') {
+				setProgress(`Writing ${TRANSCRIPT_FOLLOW_UPS[followUp].heading.toLowerCase()}...`);
+				const result = await this.callOpenAI(`${TRANSCRIPT_FOLLOW_UPS[followUp].prompt}\n\n${transcript}`, {
+					signal: controller.signal,
+					source: 'Transcription',
+					notePath: note?.path || audio.path,
+				});
+				if (result) {
+					output += `\n\n**${TRANSCRIPT_FOLLOW_UPS[followUp].heading}:**\n${result}`;
+				}
+			}
+
+			if (note && embedText && await this.insertBelowEmbed(note, editor, embedText, `\n\n${output}\n`)) {
+				new Notice('Transcript inserted!');
+			} else {
+				const file = await this.createTranscriptNote(audio, output);
+				await this.app.workspace.getLeaf(false).openFile(file);
+				new Notice(`Transcript saved to ${file.path}`);
+			}
+		} catch (error) {
+			if (controller.signal.aborted) {
+				new Notice('Transcription stopped');
+			} else {
+				new Notice(`Error: ${error.message}`);
+				console.error('ChatGPT Error:', error);
+			}
+		} finally {
+			progress.hide();
+		}
+	}
+
+	// 文字起こし中に編集されていても、挿入時点の埋め込みの位置を探して、その行の下に挿入する
+	// エディタが別のノートに切り替わっていればファイルに直接書き込み、埋め込みが見つからなければfalseを返す
+	async insertBelowEmbed(note: TFile, editor: Editor | null, embedText: string, text: string): Promise<boolean> {
+		const findOffset = (content: string): number => {
+			const index = content.indexOf(embedText);
+			if (index < 0) return -1;
+			const lineEnd = content.indexOf('\n', index + embedText.length);
+			return lineEnd < 0 ? content.length : lineEnd;
+		};
+
+		if (editor && this.editorShowsFile(editor, note.path)) {
+			const offset = findOffset(editor.getValue());
+			if (offset < 0) return false;
+			editor.replaceRange(text, editor.offsetToPos(offset));
+			return true;
+		}
+
+		let inserted = false;
+		await this.app.vault.process(note, (content) => {
+			const offset = findOffset(content);
+			if (offset < 0) return content;
+			inserted = true;
+			return content.substring(0, offset) + text + content.substring(offset);
+		});
+		return inserted;
+	}
+
+	// 音声と同じフォルダに「<名前> transcript」ノートを作る
+	async createTranscriptNote(audio: TFile, output: string): Promise<TFile> {
+		const { vault } = this.app;
+		const folder = audio.parent && !audio.parent.isRoot() ? `${audio.parent.path}/` : '';
+		let path = normalizePath(`${folder}${audio.basename} transcript.md`);
+		let counter = 1;
+		while (vault.getAbstractFileByPath(path)) {
+			path = normalizePath(`${folder}${audio.basename} transcript ${counter}.md`);
+			counter++;
+		}
+		return vault.create(path, `!${this.app.fileManager.generateMarkdownLink(audio, path)}\n\n${output}\n`);
+	}
+
+	// インデックスを更新（進捗は通知で表示）
+	async updateVaultIndex(rebuild: boolean) {
+		if (!this.settings.vaultIndexEnabled) {
+			new Notice('Please enable the vault index in settings first');
+			return;
+		}
+
+		const progress = new Notice(rebuild ? 'Rebuilding vault index...' : 'Updating vault index...', 0);
+		try {
+			const { updated, failed } = await this.vaultIndex.update(rebuild, (done, total) => {
+				progress.setMessage(`Indexing notes... ${done}/${total}`);
+			});
+			new Notice(updated > 0 ? `Vault index updated (${updated} notes)` : 'Vault index is up to date');
+			if (failed.length > 0) {
+				new Notice(`⚠️ ${failed.length} notes could not be indexed: ${failed.slice(0, 3).join(', ')}${failed.length > 3 ? ', ...' : ''}`, 8000);
+			}
+		} catch (error) {
+			new Notice(`Error: ${error.message}`);
+			console.error('ChatGPT Error:', error);
+		} finally {
+			progress.hide();
+		}
+	}
+
+	// vault全体から関連する箇所を検索し、それを根拠に回答する（出典リンク付き）
+	async askTheVault(editor: Editor, question: string) {
+		const markdownView = this.app.workspace.getActiveViewOfType(MarkdownView);
+		const sourcePath = markdownView?.file?.path || '';
+
+		if (!this.settings.vaultIndexEnabled) {
+			new Notice('Please enable the vault index in settings first');
+			return;
+		}
+
+		if (!this.hasApiKey()) {
+			new Notice(`Please set your ${this.getActiveProvider().name} API key in settings`);
+			return;
+		}
+
+		const stats = await this.vaultIndex.getStats();
+		if (stats.chunks === 0) {
+			new Notice('The vault index is empty. Run "Update vault index" first');
+			return;
+		}
+
+		// 挿入先は検索前のカーソル位置で決める（出典リストは検索後に追加）
+		const [formatPrefix, formatSuffix] = this.splitResponseFormat();
+		const inserter = new ResponseInserter(
+			this,
+			editor,
+			this.settings.askInsertionMode,
+			markdownView?.file || null,
+			{
+				title: question.split('\n')[0].substring(0, 60),
+				question,
+				formatPrefix,
+				formatSuffix,
+			}
+		);
+
+		const controller = new AbortController();
+		const stopNotice = this.showStopNotice('Searching the vault...', controller);
+
+		try {
+			const results = await this.vaultIndex.search(question, this.settings.vaultSearchTopK);
+
+			// 検索結果を番号付きの抜粋としてコンテキストに渡す
+			const context = results
+				.map((result, i) => `[${i + 1}] ${result.path}${result.heading ? `#${result.heading}` : ''}\n${result.text}`)
+				.join('\n\n');
+
+			// 出典リストを回答の後に付ける（同じ箇所は1回だけ）
+			const sources: string[] = [];
+			results.forEach((result) => {
+				const file = this.app.vault.getAbstractFileByPath(result.path);
+				if (!(file instanceof TFile)) return;
+				const link = this.app.fileManager.generateMarkdownLink(
+					file,
+					sourcePath,
+					result.heading ? `#${result.heading}` : ''
+				);
+				if (!sources.includes(link)) sources.push(link);
+			});
+
+			inserter.content.formatSuffix += sources.length > 0
+				? `\n\n**Sources:**\n${sources.map((link) => `- ${link}`).join('\n')}`
+				: '';
+
+			const response = await this.callOpenAI(question, {
+				onDelta: (delta) => inserter.write(delta),
+				signal: controller.signal,
+				systemPrompt: `${this.settings.systemPrompt}\n\nAnswer using the numbered excerpts from the user's notes below. Cite them like [1]. If they do not contain the answer, say so.`,
+				context,
+				source: 'Ask the vault',
+				notePath: sourcePath,
+			});
+
+			const inserted = await inserter.finish(response);
+
+			if (controller.signal.aborted) {
+				new Notice(inserted ? 'Response stopped (partial text kept)' : 'Response stopped');
+			} else {
+				new Notice('Response inserted!');
+			}
+		} catch (error) {
+			new Notice(`Error: ${error.message}`);
+			console.error('ChatGPT Error:', error);
+		} finally {
+			stopNotice.hide();
+		}
+	}
+
+	// Response Formatを{response}の前後に分割
+	splitResponseFormat(): [string, string] {
+		const format = this.settings.responseFormat;
+		const placeholderIndex = format.indexOf('{response}');
+		if (placeholderIndex < 0) {
+			return [format + '\n', ''];
+		}
+		return [format.substring(0, placeholderIndex), format.substring(placeholderIndex + '{response}'.length)];
+	}
+
+	// テンプレートのシステムプロンプト・モデル・Temperatureの上書き
+	getTemplateOverrides(template?: PromptTemplate): ChatCallOptions {
+		if (!template) return {};
+
+		const overrides: ChatCallOptions = {};
+		if (template.systemPrompt) overrides.systemPrompt = template.systemPrompt;
+		if (template.model) overrides.model = template.model;
+		if (template.temperature !== null) overrides.temperature = template.temperature;
+		if (template.outputSchema?.trim()) overrides.jsonSchema = parseOutputSchema(template);
+		return overrides;
+	}
+
+	// テンプレートの変数を展開
+	// {selection} {title} {frontmatter.xyz} {date} {clipboard}
+	async expandTemplateVariables(text: string, selectedText: string, file: TFile | null): Promise<string> {
+		let clipboard = '';
+		if (text.includes('{clipboard}')) {
+			try {
+				clipboard = await navigator.clipboard.readText();
+			} catch (e) {
+				// クリップボードが読めない場合は空にする
+			}
+		}
+
+		const frontmatter = file ? this.app.metadataCache.getFileCache(file)?.frontmatter : undefined;
+
+		return text.replace(/\{(selection|title|date|clipboard|frontmatter\.([^}]+))\}/g, (match, name: string, key?: string) => {
+			switch (name) {
+				case 'selection':
+					return selectedText;
+				case 'title':
+					return file ? file.basename : '';
+				case 'date':
+					return moment().format('YYYY-MM-DD');
+				case 'clipboard':
+					return clipboard;
+				default: {
+					const value = frontmatter && key ? frontmatter[key.trim()] : undefined;
+					if (value === undefined || value === null) return '';
+					return Array.isArray(value) ? value.join(', ') : String(value);
+				}
+			}
+		});
+	}
+
+	// テンプレートごとにコマンドを登録（テンプレート変更時に登録し直す）
+	registerTemplateCommands() {
+		this.templateCommandIds.forEach((id) => this.removeCommand(id));
+		this.templateCommandIds = [];
+
+		this.settings.templates.forEach((template) => {
+			const id = `template-${template.id}`;
+			this.addCommand({
+				id,
+				name: `Template: ${template.name}`,
+				editorCallback: (editor: Editor) => {
+					this.askChatGPT(editor, template);
+				},
+			});
+			this.templateCommandIds.push(id);
+		});
+	}
+
+	// 停止ボタン付きの通知を表示（hide()するまで表示したまま）
+	showStopNotice(message: string, controller: AbortController): Notice {
+		return new Notice(this.buildStopNoticeMessage(message, controller), 0);
+	}
+
+	// 停止ボタン付きの通知の内容（進捗の更新はsetMessageで差し替える）
+	buildStopNoticeMessage(message: string, controller: AbortController): DocumentFragment {
+		const fragment = document.createDocumentFragment();
+		fragment.createSpan({ text: `${message} ` });
+		const stopBtn = fragment.createEl('button', { text: 'Stop', cls: 'chatgpt-stop-btn' });
+		stopBtn.addEventListener('click', (e) => {
+			e.stopPropagation();
+			controller.abort();
+		});
+		return fragment;
+	}
+
+	async askChatGPTCustom(editor: Editor, selectedText?: string) {
+		// リーディングモードかチェックして自動切り替え
+		const markdownView = this.app.workspace.getActiveViewOfType(MarkdownView);
+		if (!markdownView) {
+			new Notice('Please open a note first');
+			return;
+		}
+
+		// デスクトップではサイドパネルで開く（モード切り替え不要）
+		if (this.useChatPanel()) {
+			const view = await this.activateChatView();
+			if (!view) return;
+			view.startSession(selectedText || editor.getSelection(), markdownView.file?.path || '');
+			view.focusInput();
+			return;
+		}
+
+		const state = markdownView.getState();
+		const wasInReadingMode = state.mode === 'preview';
+
+		// 編集モードに切り替え
+		if (wasInReadingMode) {
+			await markdownView.setState({ ...state, mode: 'source' }, { history: false });
+			// モード切り替えを待つ
+			await new Promise(resolve => setTimeout(resolve, 100));
+		}
+
+		// selectedTextが渡されていない場合はeditorから取得
+		if (!selectedText) {
+			selectedText = editor.getSelection();
+		}
+
+		// モバイルで選択が解除される問題に対応：クリップボードから取得
+		if (!selectedText || selectedText.trim() === '') {
+			try {
+				selectedText = await navigator.clipboard.readText();
+				if (selectedText && selectedText.trim()) {
+					new Notice('Using text from clipboard');
+				} else {
+					new Notice('Please select text or copy it to clipboard first');
+					return;
+				}
+			} catch (e) {
+				new Notice('Please select text first');
+				return;
+			}
+		}
+
+		if (!this.hasApiKey()) {
+			new Notice(`Please set your ${this.getActiveProvider().name} API key in settings`);
+			return;
+		}
+
+		// 対話型ChatGPTモーダルを開く
+		new InteractiveChatModal(
+			this.app,
+			this,
+			selectedText,
+			editor,
+			wasInReadingMode ? { view: markdownView, state, wasInReadingMode } : undefined
+		).open();
+	}
+
+	// 会話ノートから対話型モーダルを再開
+	async resumeConversation(file: TFile) {
+		const chat = await this.chatHistory.load(file);
+		if (!chat) {
+			new Notice('This note is not a saved ChatGPT conversation');
+			return;
+		}
+
+		if (!this.hasApiKey()) {
+			new Notice(`Please set your ${this.getActiveProvider().name} API key in settings`);
+			return;
+		}
+
+		// 元ノートを開いて挿入先にする（見つからない場合はアクティブなノート）
+		const sourceFile = this.app.vault.getAbstractFileByPath(chat.sourcePath);
+		if (sourceFile instanceof TFile) {
+			await this.app.workspace.getLeaf(false).openFile(sourceFile);
+		}
+
+		if (this.useChatPanel()) {
+			const view = await this.activateChatView();
+			if (!view) return;
+			view.startSession(chat.selectedText, chat.sourcePath, chat, file);
+			view.focusInput();
+			return;
+		}
+
+		const markdownView = this.app.workspace.getActiveViewOfType(MarkdownView);
+		if (!markdownView) {
+			new Notice('Please open a note first');
+			return;
+		}
+
+		const modal = new InteractiveChatModal(this.app, this, chat.selectedText, markdownView.editor);
+		modal.restore(chat, file);
+		modal.open();
+	}
+
+	async callOpenAI(prompt: string, options: ChatCallOptions = {}): Promise<string> {
+		const messages: ApiMessage[] = [
+			{
+				role: 'system',
+				content: options.systemPrompt || this.settings.systemPrompt,
+			},
+		];
+
+		if (options.context) {
+			messages.push({
+				role: 'system',
+				content: `Context from the document:\n\n${options.context}`,
+			});
+		}
+
+		messages.push({
+			role: 'user',
+			content: prompt,
+			images: options.images,
+		});
+
+		return this.callOpenAIWithHistory(messages, options);
+	}
+
+	// 会話履歴を使ったAPI呼び出し（対話型モーダル用）
+	// 選択中のプロバイダーのAPI形式でリクエストする
+	// onDeltaを渡した場合はストリーミングで受信し、部分テキストを逐次通知する
+	async callOpenAIWithHistory(
+		messages: ApiMessage[],
+		options: ChatCallOptions = {}
+	): Promise<string> {
+		const provider = this.getActiveProvider();
+		const adapter = createApiAdapter(provider.apiFlavour);
+		// 構造化出力は途中のJSONを表示できないためストリーミングしない
+		const stream = !!options.onDelta && this.settings.streamResponses && !options.jsonSchema;
+		const model = this.applyBudget(options.model || this.settings.model);
+		messages = this.prepareImages(messages, model);
+		const imageTokens = messages.reduce((sum, message) =>
+			sum + (message.images || []).reduce((total, image) => total + estimateImageTokens(image), 0), 0);
+		const requestBody = adapter.buildBody(messages, {
+			model,
+			temperature: options.temperature ?? this.settings.temperature,
+			maxTokens: this.settings.maxTokens,
+			// 出典の脚注がJSONを壊すため、構造化出力ではWeb検索しない
+			useWebSearch: this.settings.useWebSearch && !options.jsonSchema,
+			stream,
+			jsonSchema: options.jsonSchema,
+			tools: options.tools,
+			toolChoice: options.toolChoice,
+		});
+
+		if (stream) {
+			return this.streamChatRequest(provider, adapter, requestBody, options, imageTokens);
+		}
+
+		let data: any;
+		try {
+			({ json: data } = await this.sendApiRequest(provider, provider.endpoint, requestBody, {
+				signal: options.signal,
+			}));
+		} catch (error) {
+			// キャンセルされた場合は何も受信していない扱い
+			if (options.signal?.aborted) return '';
+			throw error;
+		}
+
+		const parsed = adapter.parseResponse(data);
+		const { usage } = parsed;
+
+		// 使用量を記録（プロバイダーごとのusageフィールドを正規化済み）
+		if (usage) {
+			const record = this.recordUsage(model, usage.inputTokens, usage.outputTokens, {
+				...options,
+				cachedTokens: usage.cachedTokens,
+				webSearchCalls: parsed.webSearchCalls,
+				imageTokens,
+			});
+			options.onUsage?.(record);
+		}
+
+		if (parsed.toolCalls) {
+			options.onToolCalls?.(parsed.toolCalls, parsed.outputItems || []);
+		}
+
+		// Web検索の出典は脚注にする
+		const text = addCitationFootnotes(parsed.text, parsed.citations).trim();
+		if (!text && !parsed.toolCalls) {
+			throw new Error('No response from ChatGPT');
+		}
+
+		return text;
+	}
+
+	// 画像を送れない場合（設定で無効・モデルが非対応）は画像を外してテキストだけ送る
+	prepareImages(messages: ApiMessage[], model: string): ApiMessage[] {
+		if (!messages.some((message) => message.images?.length)) {
+			return messages;
+		}
+		if (this.settings.sendImages && modelSupportsVision(model)) {
+			return messages;
+		}
+		if (this.settings.sendImages) {
+			new Notice(`${model} は画像入力に対応していないため、画像を除いて送信します`);
+		}
+		this.debugLogger.info('api', '🖼️ Images stripped', { model, sendImages: this.settings.sendImages });
+		return messages.map(({ images, ...message }) => message);
+	}
+
+	// ストリーミング呼び出し（Server-Sent Events）
+	// requestUrlはストリーミングに対応していないためfetchを使用する
+	// signalで停止された場合は、それまでに受信したテキストを返す
+	async streamChatRequest(
+		provider: ProviderConfig,
+		adapter: ApiAdapter,
+		requestBody: any,
+		options: ChatCallOptions,
+		imageTokens = 0
+	): Promise<string> {
+		const { signal } = options;
+		let text = '';
+		const usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+		let usageReceived = false;
+		const citations: Citation[] = [];
+		let webSearchCalls = 0;
+		let toolCalls: ToolCall[] = [];
+		let trace: ApiTrace | null = null;
+
+		try {
+			const response = await this.sendApiRequest(provider, provider.endpoint, requestBody, {
+				signal,
+				stream: true,
+			});
+			const body = response.stream;
+			trace = response.trace;
+
+			await this.readEventStream(body!, this.settings.requestTimeout, (data) => {
+				const event = adapter.parseStreamEvent(data);
+				if (event.error) {
+					throw new Error(event.error);
+				}
+				if (event.delta) {
+					text += event.delta;
+					options.onDelta?.(event.delta);
+				}
+				if (event.usage) {
+					Object.assign(usage, event.usage);
+					usageReceived = true;
+				}
+				if (event.fullText !== undefined) {
+					text = event.fullText;
+				}
+				event.citations?.forEach((citation) => {
+					citations.push(citation.end < 0 ? { ...citation, end: text.length } : citation);
+				});
+				webSearchCalls += event.webSearchCalls || 0;
+				if (event.toolCalls) {
+					toolCalls = event.toolCalls;
+					options.onToolCalls?.(event.toolCalls, event.outputItems || []);
+				}
+			});
+		} catch (error) {
+			if (trace) {
+				trace.error = this.redactSecrets(signal?.aborted ? 'Stopped' : error.message);
+				this.debugLogger.completeStreamTrace(trace, text, usageReceived ? usage : null);
+			}
+			if (signal?.aborted) {
+				this.debugLogger.info('api', '⏹️ Stream stopped', { length: text.length });
+				return text.trim();
+			}
+			throw error;
+		}
+		this.debugLogger.completeStreamTrace(trace!, text, usageReceived ? usage : null);
+
+		// 使用量を記録（ストリームの完了イベントから取得）
+		if (usageReceived) {
+			const record = this.recordUsage(requestBody.model, usage.inputTokens, usage.outputTokens, {
+				...options,
+				cachedTokens: usage.cachedTokens,
+				webSearchCalls,
+				imageTokens,
+			});
+			options.onUsage?.(record);
+		}
+
+		if (!text.trim() && toolCalls.length === 0) {
+			throw new Error('No response from ChatGPT');
+		}
+
+		// Web検索の出典は脚注にする（受信済みの表示は呼び出し側で置き換える）
+		return addCitationFootnotes(text, citations).trim();
+	}
+
+	// SSEストリームを読み取り、data行のJSONをイベントごとにコールバックする
+	// モバイルの回線が途切れて止まったままにならないよう、idleTimeout秒何も届かなければ失敗にする
+	async readEventStream(body: ReadableStream<Uint8Array>, idleTimeout: number, onEvent: (data: any) => void) {
+		const reader = body.getReader();
+		const read = () => new Promise<ReadableStreamReadResult<Uint8Array>>((resolve, reject) => {
+			const timer = window.setTimeout(() => {
+				reject(new ApiRequestError(`The response stopped for ${idleTimeout} seconds`, 0, false));
+			}, idleTimeout * 1000);
+			reader.read().then(
+				(result) => {
+					window.clearTimeout(timer);
+					resolve(result);
+				},
+				(error) => {
+					window.clearTimeout(timer);
+					reject(error);
+				}
+			);
+		});
+		const decoder = new TextDecoder();
+		let buffer = '';
+		let dataLines: string[] = [];
+
+		const dispatch = () => {
+			const raw = dataLines.join('\n');
+			dataLines = [];
+			if (raw && raw !== '[DONE]') {
+				onEvent(JSON.parse(raw));
+			}
+		};
+
+		try {
+			while (true) {
+				const { done, value } = await read();
+				if (done) break;
+
+				buffer += decoder.decode(value, { stream: true });
+				let newlineIndex = buffer.indexOf('\n');
+				while (newlineIndex >= 0) {
+					const line = buffer.substring(0, newlineIndex).replace(/\r$/, '');
+					buffer = buffer.substring(newlineIndex + 1);
+
+					// 空行でイベント区切り
+					if (line === '') {
+						dispatch();
+					} else if (line.startsWith('data:')) {
+						dataLines.push(line.substring(5).replace(/^ /, ''));
+					}
+					newlineIndex = buffer.indexOf('\n');
+				}
+			}
+			dispatch();
+		} catch (error) {
+			reader.cancel().catch(() => {});
+			throw error;
+		}
+	}
+
+	// すべてのAPI呼び出しが通るリクエスト層
+	// 一時的なエラー（429・5xx・通信エラー・タイムアウト）は指数バックオフで再試行し、Retry-Afterがあればそれに従う
+	async sendApiRequest(
+		provider: ProviderConfig,
+		url: string,
+		requestBody: any,
+		options: { signal?: AbortSignal; stream?: boolean; timeout?: number; contentType?: string } = {}
+	): Promise<{ json: any; stream: ReadableStream<Uint8Array> | null; trace: ApiTrace }> {
+		for (let attempt = 0; ; attempt++) {
+			let retryError: ApiRequestError;
+			try {
+				return await this.sendApiRequestOnce(provider, url, requestBody, options);
+			} catch (error) {
+				// エラーメッセージは通知・ログに出るため、キーが含まれていれば伏せる
+				if (error instanceof Error) error.message = this.redactSecrets(error.message);
+				if (options.signal?.aborted || !(error instanceof ApiRequestError)) throw error;
+				if (!error.retryable || attempt >= this.settings.maxRetries) throw error;
+				retryError = error;
+			}
+
+			// Retry-Afterが長すぎる場合は待たずに失敗にする
+			if (retryError.retryAfter !== null && retryError.retryAfter > MAX_RETRY_AFTER) {
+				throw retryError;
+			}
+
+			// 1秒, 2秒, 4秒...（最大30秒）に少しずらしを加える
+			const delay = retryError.retryAfter !== null
+				? retryError.retryAfter * 1000
+				: Math.min(30000, 1000 * 2 ** attempt) + Math.random() * 250;
+			this.debugLogger.warn('api', '🔁 Retrying request', {
+				attempt: attempt + 1,
+				status: retryError.status,
+				error: retryError.message,
+				delay: Math.round(delay),
+			});
+			await sleep(delay, options.signal);
+		}
+	}
+
+	// 1回分のリクエスト（ストリーミングはfetch、それ以外はCORSの影響を受けないrequestUrl）
+	// ストリーミングのタイムアウトはレスポンスヘッダーを受信するまで
+	async sendApiRequestOnce(
+		provider: ProviderConfig,
+		url: string,
+		requestBody: any,
+		options: { signal?: AbortSignal; stream?: boolean; timeout?: number; contentType?: string; apiKey?: string }
+	): Promise<{ json: any; stream: ReadableStream<Uint8Array> | null; trace: ApiTrace }> {
+		const { signal, stream } = options;
+		const timeout = options.timeout ?? this.settings.requestTimeout; // 秒
+		// apiKeyは保存前のキーを確認する場合のみ指定する
+		const headers = buildProviderHeaders(provider, options.apiKey ?? this.getApiKey(provider));
+		// ArrayBufferの本文（multipart/form-data等）はそのまま送る
+		if (options.contentType) headers['Content-Type'] = options.contentType;
+		const body = requestBody instanceof ArrayBuffer ? requestBody : JSON.stringify(requestBody);
+		const controller = new AbortController();
+		const onAbort = () => controller.abort();
+		signal?.addEventListener('abort', onAbort, { once: true });
+		let timedOut = false;
+		const timer = window.setTimeout(() => {
+			timedOut = true;
+			controller.abort();
+		}, timeout * 1000);
+		// トレースビューア用の記録（本文は伏せ字にして保持する）
+		const trace = this.debugLogger.startTrace(provider, url, requestBody, !!stream);
+		const result: { status: number; started: number; headers?: Record<string, string>; data?: any; error?: string } = {
+			status: 0,
+			started: performance.now(),
+		};
+
+		try {
+			if (stream) {
+				const response = await fetch(url, {
+					method: 'POST',
+					headers,
+					body,
+					signal: controller.signal,
+				});
+
+				if (!response.ok || !response.body) {
+					let data: any = null;
+					try {
+						data = await response.json();
+					} catch (e) {
+						// JSON以外のエラーレスポンスはステータスのみ表示
+					}
+					const headers: Record<string, string> = {};
+					response.headers.forEach((value, key) => {
+						headers[key] = value;
+					});
+					Object.assign(result, { status: response.status, headers, data: data ?? undefined });
+					throw toApiRequestError(response.status, data, headers, provider, requestBody.model);
+				}
+
+				result.status = response.status;
+				result.headers = {};
+				response.headers.forEach((value, key) => {
+					result.headers![key] = value;
+				});
+				return { json: null, stream: response.body, trace };
+			}
+
+			// requestUrlは中断できないため、キャンセル・タイムアウト時は結果を待たずに終了する
+			const response = await Promise.race([
+				requestUrl({
+					url,
+					method: 'POST',
+					headers,
+					body,
+					throw: false,
+				}),
+				new Promise<never>((_, reject) => {
+					controller.signal.addEventListener('abort', () => reject(new Error('Request cancelled')));
+				}),
+			]);
+
+			let data: any = null;
+			try {
+				data = response.json;
+			} catch (e) {
+				// JSON以外のレスポンス
+			}
+			Object.assign(result, { status: response.status, headers: response.headers, data: data ?? undefined });
+
+			if (response.status >= 400 || data?.error) {
+				throw toApiRequestError(response.status, data, response.headers, provider, requestBody.model);
+			}
+			if (!data) {
+				throw new ApiRequestError(`Invalid response from ${provider.name}`, response.status, false);
+			}
+
+			return { json: data, stream: null, trace };
+		} catch (error) {
+			result.error = signal?.aborted ? 'Cancelled' : error.message;
+			if (error instanceof ApiRequestError || signal?.aborted) throw error;
+			if (timedOut) {
+				result.error = `Timed out after ${timeout} seconds`;
+				throw new ApiRequestError(`${provider.name} did not respond within ${timeout} seconds`, 0, true);
+			}
+			// 通信エラー（モバイルの回線切断など）
+			throw new ApiRequestError(`Could not reach ${provider.name}: ${error.message}`, 0, true);
+		} finally {
+			window.clearTimeout(timer);
+			this.debugLogger.finishTrace(trace, result);
+			// ストリーミングは読み込み中も中断できるようにリスナーを残す
+			if (!stream) {
+				signal?.removeEventListener('abort', onAbort);
+			}
+		}
+	}
+
+	// 埋め込みAPIのエンドポイント（未設定の場合はプロバイダーのエンドポイントから導出）
+	getEmbeddingEndpoint(provider: ProviderConfig): string {
+		if (this.settings.embeddingEndpoint) return this.settings.embeddingEndpoint;
+		if (provider.apiFlavour === 'messages') {
+			throw new Error(`${provider.name} does not provide embeddings. Set an embedding endpoint in settings`);
+		}
+		return provider.endpoint.replace(/\/(responses|chat\/completions)\/?$/, '/embeddings');
+	}
+
+	// テキストの埋め込みを取得（OpenAI互換の/embeddings形式）
+	async callEmbeddings(texts: string[]): Promise<number[][]> {
+		const provider = this.getActiveProvider();
+		const url = this.getEmbeddingEndpoint(provider);
+		const model = this.applyBudget(this.settings.embeddingModel, false);
+		const embeddings: number[][] = [];
+
+		// 1リクエストあたりの入力数を抑えて分割送信
+		for (let i = 0; i < texts.length; i += 64) {
+			const { json: data } = await this.sendApiRequest(provider, url, { model, input: texts.slice(i, i + 64) });
+
+			// 入力順に並べ替えて追加
+			const items = [...data.data].sort((a: any, b: any) => a.index - b.index);
+			items.forEach((item: any) => embeddings.push(item.embedding));
+
+			if (data.usage) {
+				this.recordUsage(model, data.usage.prompt_tokens || 0, 0, { source: 'Vault index', kind: 'embedding' });
+			}
+		}
+
+		return embeddings;
+	}
+
+	// 文字起こしのエンドポイント（OpenAI互換の/audio/transcriptions形式）
+	getTranscriptionEndpoint(provider: ProviderConfig): string {
+		if (this.settings.transcriptionEndpoint) return this.settings.transcriptionEndpoint;
+		if (provider.apiFlavour === 'messages') {
+			throw new Error(`${provider.name} does not transcribe audio. Set a transcription endpoint in settings`);
+		}
+		return provider.endpoint.replace(/\/(responses|chat\/completions)\/?$/, '/audio/transcriptions');
+	}
+
+	// 音声ファイルを文字起こしする（長い音声は分割し、前のチャンクの末尾を続きのヒントとして渡す）
+	async transcribeAudio(
+		audio: TFile,
+		signal?: AbortSignal,
+		onProgress?: (done: number, total: number) => void
+	): Promise<string> {
+		const provider = this.getActiveProvider();
+		const url = this.getTranscriptionEndpoint(provider);
+		const model = this.applyBudget(this.settings.transcriptionModel, false);
+		const buffer = await this.app.vault.readBinary(audio);
+		const chunks = await splitAudio(audio.name, AUDIO_MIME_TYPES[audio.extension.toLowerCase()], buffer);
+
+		const texts: string[] = [];
+		for (let i = 0; i < chunks.length; i++) {
+			onProgress?.(i + 1, chunks.length);
+
+			const fields: Record<string, string> = { model, response_format: 'json' };
+			if (this.settings.transcriptionLanguage) fields.language = this.settings.transcriptionLanguage;
+			if (texts.length > 0) fields.prompt = texts[texts.length - 1].slice(-200);
+
+			const { body, contentType } = buildMultipartBody(fields, chunks[i]);
+			const { json: data } = await this.sendApiRequest(provider, url, body, {
+				signal,
+				contentType,
+				timeout: Math.max(this.settings.requestTimeout, 300),
+			});
+
+			// gpt-4o系はトークン数を返す（whisper-1は秒数のみ）
+			const usage = data.usage?.type === 'tokens' ? data.usage : null;
+			this.recordUsage(model, usage?.input_tokens || 0, usage?.output_tokens || 0, {
+				kind: 'audio',
+				source: 'Transcription',
+				notePath: audio.path,
+			});
+			texts.push(String(data.text || '').trim());
+		}
+
+		const transcript = texts.filter((text) => text).join('\n\n');
+		if (!transcript) {
+			throw new Error('No speech was recognised in the audio');
+		}
+		return transcript;
+	}
+
+	// 画像生成のエンドポイント（OpenAI互換の/images/generations形式）
+	getImageEndpoint(provider: ProviderConfig): string {
+		if (this.settings.imageEndpoint) return this.settings.imageEndpoint;
+		if (provider.apiFlavour === 'messages') {
+			throw new Error(`${provider.name} does not generate images. Set an image endpoint in settings`);
+		}
+		return provider.endpoint.replace(/\/(responses|chat\/completions)\/?$/, '/images/generations');
+	}
+
+	// 画像生成のリクエスト本文（DALL·Eはサイズ・品質の指定方法が異なる）
+	buildImageRequest(model: string, prompt: string, options: ImageGenerationOptions): any {
+		if (model.startsWith('dall-e-2')) {
+			return { model, prompt, n: 1, size: '1024x1024', response_format: 'b64_json' };
+		}
+		if (model.startsWith('dall-e')) {
+			const sizes: Record<string, string> = { '1024x1536': '1024x1792', '1536x1024': '1792x1024' };
+			return {
+				model,
+				prompt,
+				n: 1,
+				size: sizes[options.size] || '1024x1024',
+				quality: options.quality === 'high' ? 'hd' : 'standard',
+				response_format: 'b64_json',
+			};
+		}
+		return { model, prompt, n: 1, size: options.size, quality: options.quality };
+	}
+
+	// プロンプトから画像を1枚生成する（PNGのデータと、モデルが書き換えたプロンプト）
+	async generateImage(
+		prompt: string,
+		options: ImageGenerationOptions,
+		signal?: AbortSignal,
+		notePath?: string
+	): Promise<{ data: ArrayBuffer; model: string; revisedPrompt?: string; cost: number }> {
+		const provider = this.getActiveProvider();
+		const url = this.getImageEndpoint(provider);
+		const model = this.applyBudget(this.settings.imageModel, false);
+
+		// 高品質の画像は時間がかかるため、タイムアウトを長めにする
+		const { json: data } = await this.sendApiRequest(provider, url, this.buildImageRequest(model, prompt, options), {
+			signal,
+			timeout: Math.max(this.settings.requestTimeout, 180),
+		});
+
+		const item = data.data?.[0];
+		let buffer: ArrayBuffer;
+		if (item?.b64_json) {
+			buffer = base64ToArrayBuffer(item.b64_json);
+		} else if (item?.url) {
+			buffer = (await requestUrl({ url: item.url })).arrayBuffer;
+		} else {
+			throw new Error(`No image returned from ${provider.name}`);
+		}
+
+		// gpt-imageはトークン数、DALL·Eは枚数で料金を記録する
+		const record = this.recordUsage(model, data.usage?.input_tokens || 0, data.usage?.output_tokens || 0, {
+			kind: 'image',
+			generatedImages: 1,
+			source: 'Image generation',
+			notePath,
+		});
+
+		return { data: buffer, model, revisedPrompt: item.revised_prompt, cost: record.estimatedCost };
+	}
+
+	// 生成した画像を添付ファイルとして保存し、同じ名前のノートに再現用のプロンプトとモデルを残す
+	async saveGeneratedImage(
+		data: ArrayBuffer,
+		sourcePath: string,
+		meta: ImageGenerationOptions & { prompt: string; revisedPrompt?: string; model: string; cost: number }
+	): Promise<TFile> {
+		const { vault } = this.app;
+		const name = `ChatGPT image ${moment().format('YYYY-MM-DD HHmmss')}`;
+
+		let path: string;
+		if (this.settings.imageFolder) {
+			const folder = normalizePath(this.settings.imageFolder);
+			if (!vault.getAbstractFileByPath(folder)) {
+				await vault.createFolder(folder);
+			}
+			path = normalizePath(`${folder}/${name}.png`);
+			let counter = 1;
+			while (vault.getAbstractFileByPath(path)) {
+				path = normalizePath(`${folder}/${name} ${counter}.png`);
+				counter++;
+			}
+		} else {
+			path = await this.app.fileManager.getAvailablePathForAttachment(`${name}.png`, sourcePath);
+		}
+
+		const file = await vault.createBinary(path, data);
+
+		const frontmatter: Record<string, any> = {
+			'chatgpt-image': true,
+			prompt: meta.prompt,
+		};
+		if (meta.revisedPrompt && meta.revisedPrompt !== meta.prompt) {
+			frontmatter.revised_prompt = meta.revisedPrompt;
+		}
+		Object.assign(frontmatter, {
+			model: meta.model,
+			size: meta.size,
+			quality: meta.quality,
+			created: new Date().toISOString(),
+			estimated_cost: Number(meta.cost.toFixed(6)),
+		});
+		const sourceFile = vault.getAbstractFileByPath(sourcePath);
+		if (sourceFile instanceof TFile) {
+			frontmatter.source = this.app.fileManager.generateMarkdownLink(sourceFile, path);
+		}
+
+		const notePath = path.replace(/\.png$/, '.md');
+		if (!vault.getAbstractFileByPath(notePath)) {
+			await vault.create(
+				notePath,
+				`---\n${stringifyYaml(frontmatter)}---\n\n!${this.app.fileManager.generateMarkdownLink(file, notePath)}\n`
+			);
+		}
+
+		return file;
+	}
+
+	// モデルの料金（日付付きのモデル名は前方一致で最も長い登録名を使う）
+	getModelPricing(model: string): ModelPricing | null {
+		const { pricing } = this.settings;
+		if (pricing[model]) return pricing[model];
+
+		const prefix = Object.keys(pricing)
+			.filter((name) => model.startsWith(`${name}-`))
+			.sort((a, b) => b.length - a.length)[0];
+		return prefix ? pricing[prefix] : null;
+	}
+
+	// コスト計算（料金表に無いモデルは0として扱う）
+	calculateCost(
+		model: string,
+		promptTokens: number,
+		completionTokens: number,
+		cachedTokens: number = 0,
+		webSearchCalls: number = 0,
+		images: number = 0
+	): number {
+		const modelPricing = this.getModelPricing(model);
+		if (!modelPricing) return 0;
+
+		const cached = Math.min(cachedTokens, promptTokens);
+		const inputCost = ((promptTokens - cached) / 1_000_000) * modelPricing.input;
+		const cachedCost = (cached / 1_000_000) * modelPricing.cachedInput;
+		const outputCost = (completionTokens / 1_000_000) * modelPricing.output;
+		const webSearchCost = webSearchCalls * modelPricing.webSearchCall;
+		const imageCost = images * modelPricing.image;
+
+		return inputCost + cachedCost + outputCost + webSearchCost + imageCost;
+	}
+
+	// 料金表に無いモデルはセッションごとに1回警告する
+	warnUnknownModel(model: string) {
+		if (this.unpricedModels.has(model)) return;
+		this.unpricedModels.add(model);
+		this.debugLogger.warn('usage', '💲 Unknown model pricing', { model });
+		new Notice(`⚠️ No pricing for "${model}". Its cost is recorded as $0 — add it under Settings → Model Pricing.`, 10000);
+	}
+
+	// 料金表の修正を過去の記録に反映する
+	recostUsageHistory(): number {
+		let changed = 0;
+		const recost = (item: UsageRecord | UsageAggregate) => {
+			const cost = this.calculateCost(
+				item.model,
+				item.promptTokens,
+				item.completionTokens,
+				item.cachedTokens,
+				item.webSearchCalls,
+				item.generatedImages
+			);
+			if (cost !== item.estimatedCost) {
+				item.estimatedCost = cost;
+				changed++;
+			}
+		};
+
+		this.settings.usageHistory.forEach(recost);
+		this.settings.usageMonthly.forEach(recost);
+		this.refreshUsageViews();
+		return changed;
+	}
+
+	// 使用量を記録
+	recordUsage(model: string, promptTokens: number, completionTokens: number, details: UsageDetails = {}): UsageRecord {
+		const totalTokens = promptTokens + completionTokens;
+		const estimatedCost = this.calculateCost(
+			model,
+			promptTokens,
+			completionTokens,
+			details.cachedTokens,
+			details.webSearchCalls,
+			details.generatedImages
+		);
+		if (!this.getModelPricing(model)) {
+			this.warnUnknownModel(model);
+		}
+
+		const record: UsageRecord = {
+			date: new Date().toISOString(),
+			model,
+			promptTokens,
+			completionTokens,
+			totalTokens,
+			estimatedCost,
+		};
+		if (details.cachedTokens) record.cachedTokens = details.cachedTokens;
+		if (details.webSearchCalls) record.webSearchCalls = details.webSearchCalls;
+		if (details.imageTokens) record.imageTokens = details.imageTokens;
+		if (details.kind) record.kind = details.kind;
+		if (details.generatedImages) record.generatedImages = details.generatedImages;
+		if (details.source) record.source = details.source;
+		if (details.notePath) record.notePath = details.notePath;
+
+		this.settings.usageHistory.push(record);
+		this.saveSettings();
+		this.checkBudgetWarnings();
+		this.refreshUsageViews();
+		return record;
+	}
+
+	// 保存期間より古い記録を月ごとの集計にまとめる（data.jsonが際限なく大きくならないように）
+	compactUsageHistory(): boolean {
+		const cutoff = moment().startOf('month').subtract(Math.max(1, this.settings.usageRetentionMonths) - 1, 'months');
+		const keep: UsageRecord[] = [];
+		let compacted = false;
+
+		this.settings.usageHistory.forEach((record) => {
+			if (!moment(record.date).isBefore(cutoff)) {
+				keep.push(record);
+				return;
+			}
+
+			const month = moment(record.date).format('YYYY-MM');
+			const source = record.source || '';
+			let aggregate = this.settings.usageMonthly.find(
+				(a) => a.month === month && a.model === record.model && a.source === source
+			);
+			if (!aggregate) {
+				aggregate = { month, model: record.model, source, requests: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, estimatedCost: 0 };
+				this.settings.usageMonthly.push(aggregate);
+			}
+			aggregate.requests += 1;
+			aggregate.promptTokens += record.promptTokens;
+			aggregate.completionTokens += record.completionTokens;
+			aggregate.totalTokens += record.totalTokens;
+			aggregate.estimatedCost += record.estimatedCost;
+			if (record.cachedTokens) aggregate.cachedTokens = (aggregate.cachedTokens || 0) + record.cachedTokens;
+			if (record.webSearchCalls) aggregate.webSearchCalls = (aggregate.webSearchCalls || 0) + record.webSearchCalls;
+			if (record.generatedImages) aggregate.generatedImages = (aggregate.generatedImages || 0) + record.generatedImages;
+			compacted = true;
+		});
+
+		this.settings.usageHistory = keep;
+		return compacted;
+	}
+
+	// 使用量をCSVまたはJSONでvaultに書き出す
+	async exportUsage(format: 'csv' | 'json'): Promise<TFile> {
+		const { usageHistory, usageMonthly } = this.settings;
+		let content: string;
+
+		if (format === 'json') {
+			content = JSON.stringify({ records: usageHistory, monthly: usageMonthly }, null, 2);
+		} else {
+			// 集計済みの月は日付を月、リクエスト数を集計値として1行にする
+			const escape = (value: string | number | undefined) => {
+				const text = value === undefined ? '' : String(value);
+				return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+			};
+			const rows: Array<Array<string | number | undefined>> = [
+				['date', 'model', 'source', 'note', 'requests', 'prompt_tokens', 'completion_tokens', 'total_tokens', 'estimated_cost_usd', 'kind', 'images'],
+			];
+			usageMonthly.forEach((a) => {
+				rows.push([a.month, a.model, a.source, '', a.requests, a.promptTokens, a.completionTokens, a.totalTokens, a.estimatedCost.toFixed(6), '', a.generatedImages]);
+			});
+			usageHistory.forEach((r) => {
+				rows.push([r.date, r.model, r.source, r.notePath, 1, r.promptTokens, r.completionTokens, r.totalTokens, r.estimatedCost.toFixed(6), r.kind || 'text', r.generatedImages]);
+			});
+			content = rows.map((row) => row.map(escape).join(',')).join('\n') + '\n';
+		}
+
+		const path = normalizePath(`ChatGPT usage ${moment().format('YYYY-MM-DD HHmmss')}.${format}`);
+		return this.app.vault.create(path, content);
+	}
+
+	// 開いている使用量ビューを更新
+	refreshUsageViews() {
+		this.app.workspace.getLeavesOfType(USAGE_VIEW_TYPE).forEach((leaf) => {
+			if (leaf.view instanceof UsageView) {
+				leaf.view.render();
+			}
+		});
+	}
+
+	// 使用量ビューを開く（既に開いていれば再利用）
+	async activateUsageView() {
+		const { workspace } = this.app;
+		let leaf = workspace.getLeavesOfType(USAGE_VIEW_TYPE)[0];
+
+		if (!leaf) {
+			leaf = workspace.getLeaf(true);
+			await leaf.setViewState({ type: USAGE_VIEW_TYPE, active: true });
+		}
+
+		await workspace.revealLeaf(leaf);
+	}
+
+	// 今日と今月の利用料金（USD）
+	getSpending(): { daily: number; monthly: number } {
+		const today = moment().format('YYYY-MM-DD');
+		const month = moment().format('YYYY-MM');
+		let daily = 0;
+		let monthly = 0;
+
+		this.settings.usageHistory.forEach((record) => {
+			const date = moment(record.date);
+			if (date.format('YYYY-MM') === month) monthly += record.estimatedCost;
+			if (date.format('YYYY-MM-DD') === today) daily += record.estimatedCost;
+		});
+
+		return { daily, monthly };
+	}
+
+	// 上限に達した予算の説明（達していなければnull）
+	getExceededBudget(): string | null {
+		const { daily, monthly } = this.getSpending();
+		if (this.settings.dailyBudget > 0 && daily >= this.settings.dailyBudget) {
+			return `Daily budget of $${this.settings.dailyBudget.toFixed(2)} reached ($${daily.toFixed(4)} spent today)`;
+		}
+		if (this.settings.monthlyBudget > 0 && monthly >= this.settings.monthlyBudget) {
+			return `Monthly budget of $${this.settings.monthlyBudget.toFixed(2)} reached ($${monthly.toFixed(4)} spent this month)`;
+		}
+		return null;
+	}
+
+	// 予算を超えている場合はリクエストを止めるか、安いモデルに切り替える
+	// allowFallback=falseの場合（埋め込み・文字起こし・画像生成）は切り替え先が無いため止める
+	applyBudget(model: string, allowFallback: boolean = true): string {
+		const exceeded = this.getExceededBudget();
+		if (!exceeded) return model;
+
+		if (allowFallback && this.settings.budgetAction === 'fallback' && this.settings.budgetFallbackModel) {
+			if (model === this.settings.budgetFallbackModel) return model;
+			this.debugLogger.info('usage', '💸 Budget fallback', { from: model, to: this.settings.budgetFallbackModel });
+			new Notice(`${exceeded}. Using ${this.settings.budgetFallbackModel} instead of ${model}`);
+			return this.settings.budgetFallbackModel;
+		}
+
+		throw new Error(`${exceeded}. Raise the budget in settings to continue`);
+	}
+
+	// 予算の警告ラインを超えたら期間ごとに1回だけ通知
+	checkBudgetWarnings() {
+		const { daily, monthly } = this.getSpending();
+		const periods = [
+			{ key: 'daily', label: 'daily', budget: this.settings.dailyBudget, spent: daily, period: moment().format('YYYY-MM-DD') },
+			{ key: 'monthly', label: 'monthly', budget: this.settings.monthlyBudget, spent: monthly, period: moment().format('YYYY-MM') },
+		];
+
+		periods.forEach(({ key, label, budget, spent, period }) => {
+			if (budget <= 0 || this.budgetWarned[key] === period) return;
+			const percent = (spent / budget) * 100;
+			if (percent >= this.settings.budgetWarnPercent) {
+				this.budgetWarned[key] = period;
+				new Notice(`⚠️ ${Math.floor(percent)}% of your ${label} ChatGPT budget used ($${spent.toFixed(4)} / $${budget.toFixed(2)})`, 8000);
+			}
+		});
+	}
+
+	// 送信前のコスト見積もり（出力は最大トークンまで生成された場合を上限とする）
+	// extraTokensには画像など、テキスト以外の入力トークンを渡す
+	estimateRequestCost(text: string, model: string = this.settings.model, extraTokens: number = 0): { tokens: number; min: number; max: number } {
+		const tokens = estimateTokens(text) + extraTokens;
+		return {
+			tokens,
+			min: this.calculateCost(model, tokens, 0),
+			max: this.calculateCost(model, tokens, this.settings.maxTokens),
+		};
+	}
+
+	// サイドパネルを使うか（モバイルでは常にモーダル）
+	useChatPanel(): boolean {
+		return !Platform.isMobile && this.settings.chatInSidebar;
+	}
+
+	// 右サイドバーのチャットパネルを開く（既に開いていれば再利用）
+	// 復元したワークスペースではビューの読み込みが遅延されているため、読み込んでから返す
+	async activateChatView(): Promise<ChatSidebarView | null> {
+		const { workspace } = this.app;
+		let leaf = workspace.getLeavesOfType(CHAT_VIEW_TYPE)[0];
+
+		if (!leaf) {
+			leaf = workspace.getRightLeaf(false)!;
+			await leaf.setViewState({ type: CHAT_VIEW_TYPE, active: true });
+		}
+
+		await workspace.revealLeaf(leaf);
+		if (typeof leaf.loadIfDeferred === 'function') {
+			await leaf.loadIfDeferred();
+		}
+		if (!(leaf.view instanceof ChatSidebarView)) {
+			new Notice('Could not open the chat panel');
+			return null;
+		}
+		return leaf.view;
+	}
+
+	// 選択中のプロバイダー設定
+	getActiveProvider(): ProviderConfig {
+		return this.settings.providers.find((p) => p.id === this.settings.activeProviderId)
+			|| this.settings.providers[0];
+	}
+
+	hasApiKey(): boolean {
+		const provider = this.getActiveProvider();
+		return provider.authScheme === 'none' || !!this.getApiKey(provider);
+	}
+
+	// プロバイダーが使うAPIキーの値（端末内に保存したキーはlocalStorageから読む）
+	getApiKey(provider: ProviderConfig): string {
+		const entry = this.settings.apiKeys.find((k) => k.id === provider.apiKeyId);
+		if (!entry) return '';
+		return entry.deviceOnly ? this.loadDeviceApiKey(entry.id) : entry.key;
+	}
+
+	setApiKey(entry: ApiKeyEntry, value: string) {
+		if (entry.deviceOnly) {
+			this.saveDeviceApiKey(entry.id, value);
+		} else {
+			entry.key = value;
+		}
+	}
+
+	// 端末内に保存するかを切り替え、キーを移す
+	setApiKeyDeviceOnly(entry: ApiKeyEntry, deviceOnly: boolean) {
+		if (entry.deviceOnly === deviceOnly) return;
+		const value = entry.deviceOnly ? this.loadDeviceApiKey(entry.id) : entry.key;
+		if (deviceOnly) {
+			this.saveDeviceApiKey(entry.id, value);
+			entry.key = '';
+		} else {
+			this.saveDeviceApiKey(entry.id, '');
+			entry.key = value;
+		}
+		entry.deviceOnly = deviceOnly;
+	}
+
+	// vaultごとのlocalStorage（loadLocalStorageが無い古いObsidianではlocalStorageを直接使う）
+	loadDeviceApiKey(id: string): string {
+		const key = `chatgpt-integration-api-key-${id}`;
+		const value = typeof this.app.loadLocalStorage === 'function'
+			? this.app.loadLocalStorage(key)
+			: window.localStorage.getItem(key);
+		return typeof value === 'string' ? value : '';
+	}
+
+	saveDeviceApiKey(id: string, value: string) {
+		const key = `chatgpt-integration-api-key-${id}`;
+		if (typeof this.app.saveLocalStorage === 'function') {
+			this.app.saveLocalStorage(key, value || null);
+		} else if (value) {
+			window.localStorage.setItem(key, value);
+		} else {
+			window.localStorage.removeItem(key);
+		}
+	}
+
+	// ログ・エラーメッセージからAPIキーを伏せる（設定の読み込み前にも呼ばれる）
+	redactSecrets(text: string): string {
+		const secrets = (this.settings?.apiKeys || []).map((entry) =>
+			entry.deviceOnly ? this.loadDeviceApiKey(entry.id) : entry.key);
+		return redactSecrets(text, secrets);
+	}
+
+	// キーを使って最小のリクエストを送り、使えるか確かめる（使用量には記録しない）
+	async testApiKey(provider: ProviderConfig, apiKey: string): Promise<string> {
+		const model = provider.models.includes(this.settings.model)
+			? this.settings.model
+			: provider.models[0] || this.settings.model;
+		const body = createApiAdapter(provider.apiFlavour).buildBody([{ role: 'user', content: 'ping' }], {
+			model,
+			temperature: this.settings.temperature,
+			maxTokens: 16,
+			useWebSearch: false,
+			stream: false,
+		});
+		try {
+			await this.sendApiRequestOnce(provider, provider.endpoint, body, { apiKey, timeout: 30 });
+		} catch (error) {
+			if (error instanceof Error) error.message = this.redactSecrets(error.message);
+			throw error;
+		}
+		return model;
+	}
+
+	async onunload() {
+		// 書き込み待ちのログを残さない
+		await this.debugLogger.flush();
+	}
+
+	async loadSettings() {
+		const data = await this.loadData();
+		this.settings = Object.assign({}, DEFAULT_SETTINGS, data);
+		this.settings.apiKeys = (this.settings.apiKeys || []).map((entry) => ({ ...entry }));
+
+		// 旧バージョン（OpenAIのAPIキーのみ）からの移行
+		if (!this.settings.providers || this.settings.providers.length === 0) {
+			this.settings.providers = [createProviderConfig('openai')];
+			this.settings.activeProviderId = 'openai';
+			if (data?.apiKey) {
+				this.settings.apiKeys.push({ id: 'openai', name: 'OpenAI', key: data.apiKey, deviceOnly: false });
+				this.settings.providers[0].apiKeyId = 'openai';
+			}
+		}
+		delete (this.settings as any).apiKey;
+
+		// プロバイダーごとのキー（apiKey）を名前付きのキーに移す
+		this.settings.providers.forEach((provider: ProviderConfig & { apiKey?: string }) => {
+			if (provider.apiKey) {
+				const id = this.settings.apiKeys.some((k) => k.id === provider.id) ? `${provider.id}-${Date.now().toString(36)}` : provider.id;
+				this.settings.apiKeys.push({ id, name: provider.name, key: provider.apiKey, deviceOnly: false });
+				provider.apiKeyId = id;
+			}
+			delete provider.apiKey;
+			provider.apiKeyId = provider.apiKeyId || '';
+		});
+
+		// デフォルトのコンテキスト設定を直接変更しないようにコピー
+		this.settings.contextSources = { ...DEFAULT_SETTINGS.contextSources, ...this.settings.contextSources };
+
+		// デフォルトのテンプレートを直接変更しないようにコピー
+		this.settings.templates = this.settings.templates.map((template) => ({ ...template }));
+
+		// 料金表も同様にコピー
+		this.settings.pricing = Object.fromEntries(
+			Object.entries(this.settings.pricing).map(([model, price]) => [model, { ...price, image: price.image ?? 0 }])
+		);
+	}
+
+	async saveSettings() {
+		await this.saveData(this.settings);
+	}
+}
+
+// トークン数の概算（ASCIIは4文字≒1トークン、それ以外は1文字≒1トークン）
+function estimateTokens(text: string): number {
+	const nonAscii = (text.match(/[^\x00-\x7F]/g) || []).length;
+	return Math.ceil((text.length - nonAscii) / 4) + nonAscii;
+}
+
+// トークン数の上限に収まるように末尾を切り詰める
+function trimToTokens(text: string, maxTokens: number): string {
+	if (estimateTokens(text) <= maxTokens) return text;
+	if (maxTokens <= 0) return '';
+
+	let length = Math.floor(text.length * maxTokens / estimateTokens(text));
+	while (length > 0 && estimateTokens(text.substring(0, length)) > maxTokens) {
+		length = Math.floor(length * 0.9);
+	}
+	return `${text.substring(0, length)}\n…(trimmed)`;
+}
+
+// metadataCacheを使ってノートの周辺（セクション・リンク・バックリンク等）からコンテキストを組み立てる
+class NoteContextBuilder {
+	private plugin: ChatGPTPlugin;
+
+	constructor(plugin: ChatGPTPlugin) {
+		this.plugin = plugin;
+	}
+
+	// 選択テキストの後ろに有効なソースを優先順に追加し、トークン予算に収める
+	// includeSelection=falseの場合は選択テキストをセクションの特定にだけ使う
+	async build(
+		selectedText: string,
+		sourcePath: string,
+		sources: ContextSources,
+		budget: number,
+		includeSelection: boolean = true
+	): Promise<string> {
+		const { vault, metadataCache } = this.plugin.app;
+		const baseText = includeSelection ? selectedText : '';
+		const file = vault.getAbstractFileByPath(sourcePath);
+		if (!(file instanceof TFile)) return baseText;
+
+		const parts: Array<{ title: string; text: string }> = [];
+		const content = await vault.cachedRead(file);
+		const cache = metadataCache.getFileCache(file);
+
+		if (sources.fullNote) {
+			parts.push({ title: `Full note: ${file.basename}`, text: content });
+		} else if (sources.section) {
+			const section = this.getSection(content, cache, selectedText);
+			if (section) {
+				parts.push({ title: `Current section: ${section.heading}`, text: section.text });
+			}
+		}
+
+		// リンク系は重複しないように読み込む
+		const seen = new Set<string>([file.path]);
+		const addLinkedFiles = async (linkpaths: string[], label: string) => {
+			for (const linkpath of linkpaths) {
+				const target = metadataCache.getFirstLinkpathDest(linkpath.split('#')[0], file.path);
+				if (!target || target.extension !== 'md' || seen.has(target.path)) continue;
+				seen.add(target.path);
+				parts.push({ title: `${label}: [[${target.basename}]]`, text: await vault.cachedRead(target) });
+			}
+		};
+
+		if (sources.embeds && cache?.embeds) {
+			await addLinkedFiles(cache.embeds.map((embed) => embed.link), 'Embedded note');
+		}
+		if (sources.links && cache?.links) {
+			await addLinkedFiles(cache.links.map((link) => link.link), 'Linked note');
+		}
+		if (sources.backlinks) {
+			const backlinks = Object.keys(metadataCache.resolvedLinks)
+				.filter((path) => metadataCache.resolvedLinks[path][file.path]);
+			await addLinkedFiles(backlinks, 'Backlink');
+		}
+
+		// 予算内に収める（優先度の低いソースから省略される）
+		let remaining = budget - estimateTokens(baseText);
+		let result = baseText;
+		for (const part of parts) {
+			// 中身の無いノートは飛ばし、予算を使い切ったら終了
+			if (!part.text.trim()) continue;
+			const header = `\n\n### ${part.title}\n`;
+			const text = trimToTokens(part.text.trim(), remaining - estimateTokens(header));
+			if (!text) break;
+			result += header + text;
+			remaining -= estimateTokens(header + text);
+		}
+
+		return result.trim();
+	}
+
+	// 選択テキストを含む見出しのセクション（見出しが無い場合は最初の見出しまで）
+	getSection(content: string, cache: CachedMetadata | null, selectedText: string): { heading: string; text: string } | null {
+		const offset = selectedText ? content.indexOf(selectedText) : -1;
+		if (offset < 0) return null;
+
+		const lines = content.split('\n');
+		const selectionLine = content.substring(0, offset).split('\n').length - 1;
+		const headings = cache?.headings || [];
+
+		let start = 0;
+		let heading = '(top of note)';
+		let level = 0;
+		headings.forEach((h) => {
+			if (h.position.start.line <= selectionLine) {
+				start = h.position.start.line;
+				heading = h.heading;
+				level = h.level;
+			}
+		});
+
+		const next = headings.find((h) => h.position.start.line > start && (level === 0 || h.level <= level));
+		const end = next ? next.position.start.line : lines.length;
+
+		return { heading, text: lines.slice(start, end).join('\n') };
+	}
+
+	// テキスト中の画像の埋め込み（![[image.png]] / ![](image.png)）を読み込む
+	// 外部URLは対象外。多すぎる・大きすぎる画像は送らない
+	async resolveImages(text: string, sourcePath: string): Promise<ImageAttachment[]> {
+		const { vault, metadataCache } = this.plugin.app;
+		const linkpaths: string[] = [];
+		for (const match of text.matchAll(/!\[\[([^\]|#]+)(?:[#|][^\]]*)?\]\]/g)) {
+			linkpaths.push(match[1].trim());
+		}
+		for (const match of text.matchAll(/!\[[^\]]*\]\(<?([^)>\s]+)>?(?:\s+"[^"]*")?\)/g)) {
+			if (/^[a-z]+:\/\//i.test(match[1])) continue;
+			try {
+				linkpaths.push(decodeURI(match[1]));
+			} catch {
+				linkpaths.push(match[1]);
+			}
+		}
+
+		const images: ImageAttachment[] = [];
+		const seen = new Set<string>();
+		for (const linkpath of linkpaths) {
+			if (images.length >= MAX_IMAGES_PER_REQUEST) break;
+			const file = metadataCache.getFirstLinkpathDest(linkpath, sourcePath);
+			const mimeType = file && IMAGE_MIME_TYPES[file.extension.toLowerCase()];
+			if (!file || !mimeType || seen.has(file.path)) continue;
+			seen.add(file.path);
+			if (file.stat.size > MAX_IMAGE_BYTES) {
+				new Notice(`${file.name} は大きすぎるため送信しません`);
+				continue;
+			}
+			const buffer = await vault.adapter.readBinary(file.path);
+			images.push(await readImageAttachment(file.name, mimeType, buffer));
+		}
+		return images;
+	}
+}
+
+// ベクトル検索用のインデックス（プラグインフォルダのembeddings.jsonに保存）
+interface IndexedChunk {
+	heading: string; // チャンクが属する見出し（無い場合は空）
+	text: string;
+	embedding: number[];
+}
+
+interface VaultIndexData {
+	model: string; // インデックス作成に使った埋め込みモデル
+	files: { [path: string]: { mtime: number; chunks: IndexedChunk[] } };
+}
+
+interface VaultSearchResult {
+	path: string;
+	heading: string;
+	text: string;
+	score: number;
+}
+
+// 1チャンクの最大文字数（日本語は1文字1トークン前後のため、埋め込みモデルの入力上限に余裕を持たせる）
+const MAX_CHUNK_CHARS = 2000;
+
+// Markdownノートをチャンクに分割して埋め込みを取得し、変更に合わせて差分更新する
+class VaultIndex {
+	private plugin: ChatGPTPlugin;
+	private data: VaultIndexData | null = null;
+	private pending = new Set<string>(); // 変更されて再インデックス待ちのファイル
+	private flushPending: Debouncer<[], void>;
+
+	constructor(plugin: ChatGPTPlugin) {
+		this.plugin = plugin;
+		// 保存のたびに埋め込みを取得しないよう、変更はまとめて処理する
+		this.flushPending = debounce(() => {
+			this.indexPending();
+		}, 10000, true);
+	}
+
+	get indexPath(): string {
+		return normalizePath(`${this.plugin.manifest.dir}/embeddings.json`);
+	}
+
+	async load(): Promise<VaultIndexData> {
+		if (this.data && this.data.model === this.plugin.settings.embeddingModel) return this.data;
+
+		const adapter = this.plugin.app.vault.adapter;
+		let data: VaultIndexData | null = null;
+		if (await adapter.exists(this.indexPath)) {
+			try {
+				data = JSON.parse(await adapter.read(this.indexPath));
+			} catch (error) {
+				console.error('ChatGPT Error: failed to read vault index', error);
+			}
+		}
+
+		// 埋め込みモデルが変わった場合は作り直す
+		if (!data || data.model !== this.plugin.settings.embeddingModel) {
+			data = { model: this.plugin.settings.embeddingModel, files: {} };
+		}
+
+		this.data = data;
+		return data;
+	}
+
+	async save() {
+		if (!this.data) return;
+		await this.plugin.app.vault.adapter.write(this.indexPath, JSON.stringify(this.data));
+	}
+
+	async getStats(): Promise<{ files: number; chunks: number }> {
+		const data = await this.load();
+		const files = Object.values(data.files);
+		return {
+			files: files.length,
+			chunks: files.reduce((sum, file) => sum + file.chunks.length, 0),
+		};
+	}
+
+	// インデックス対象（会話ノートのフォルダは除く）
+	shouldIndex(file: TFile): boolean {
+		const chatFolder = normalizePath(this.plugin.settings.chatFolder || '/');
+		return file.extension === 'md' && !(chatFolder !== '/' && file.path.startsWith(`${chatFolder}/`));
+	}
+
+	// 見出しごとに分割し、長いセクションは段落単位でおよそ1000文字に分ける
+	// 空行の無い長いリスト・コードブロック・日本語の文章も埋め込みの入力上限を超えないよう、上限の文字数で必ず分ける
+	chunkNote(content: string): Array<{ heading: string; text: string }> {
+		const body = content.replace(/^---\n[\s\S]*?\n---\n/, '');
+		const chunks: Array<{ heading: string; text: string }> = [];
+		let heading = '';
+		let buffer = '';
+
+		const flush = () => {
+			if (buffer.trim()) {
+				chunks.push({ heading, text: buffer.trim() });
+			}
+			buffer = '';
+		};
+
+		body.split('\n').forEach((line) => {
+			const match = line.match(/^#{1,6}\s+(.*?)\s*#*\s*$/);
+			if (match) {
+				flush();
+				heading = match[1];
+			}
+			if (buffer.length > 1000 && line.trim() === '') {
+				flush();
+			}
+			if (buffer.length + line.length > MAX_CHUNK_CHARS) {
+				flush();
+			}
+			// 1行だけで上限を超える場合は行の途中で分ける
+			let rest = line;
+			while (rest.length > MAX_CHUNK_CHARS) {
+				buffer = rest.substring(0, MAX_CHUNK_CHARS);
+				flush();
+				rest = rest.substring(MAX_CHUNK_CHARS);
+			}
+			buffer += `${rest}\n`;
+		});
+		flush();
+
+		return chunks;
+	}
+
+	async indexFile(file: TFile) {
+		const data = await this.load();
+		const content = await this.plugin.app.vault.cachedRead(file);
+		const chunks = this.chunkNote(content);
+
+		if (chunks.length === 0) {
+			delete data.files[file.path];
+			return;
+		}
+
+		// チャンク本文の前にノート名と見出しを付けて埋め込む
+		const embeddings = await this.plugin.callEmbeddings(
+			chunks.map((chunk) => `${file.basename}${chunk.heading ? ` > ${chunk.heading}` : ''}\n${chunk.text}`)
+		);
+
+		data.files[file.path] = {
+			mtime: file.stat.mtime,
+			chunks: chunks.map((chunk, i) => ({
+				...chunk,
+				// ファイルサイズを抑えるため小数点以下5桁に丸める
+				embedding: embeddings[i].map((value) => Math.round(value * 1e5) / 1e5),
+			})),
+		};
+	}
+
+	// 新規・変更されたノートをインデックス（rebuild=trueの場合は全て作り直す）
+	// 失敗したノートは飛ばして続ける（認証・通信等のエラーは全てのノートで失敗するため中止する）
+	async update(
+		rebuild: boolean = false,
+		onProgress?: (done: number, total: number) => void
+	): Promise<{ updated: number; failed: string[] }> {
+		const data = await this.load();
+		if (rebuild) {
+			data.files = {};
+		}
+
+		const files = this.plugin.app.vault.getMarkdownFiles().filter((file) => this.shouldIndex(file));
+		const existingPaths = new Set(files.map((file) => file.path));
+
+		// 削除されたノートを取り除く
+		Object.keys(data.files).forEach((path) => {
+			if (!existingPaths.has(path)) delete data.files[path];
+		});
+
+		const changed = files.filter((file) => data.files[file.path]?.mtime !== file.stat.mtime);
+		const failed: string[] = [];
+		for (let i = 0; i < changed.length; i++) {
+			try {
+				await this.indexFile(changed[i]);
+			} catch (error) {
+				if (error instanceof ApiRequestError && error.status !== 400 && error.status !== 413) {
+					await this.save();
+					throw error;
+				}
+				failed.push(changed[i].path);
+				this.plugin.debugLogger.error('index', '❌ Index update failed', { path: changed[i].path, error: error.message });
+			}
+			onProgress?.(i + 1, changed.length);
+			// 途中で失敗しても進捗が残るように定期的に保存
+			if ((i + 1) % 20 === 0) {
+				await this.save();
+			}
+		}
+
+		await this.save();
+		return { updated: changed.length - failed.length, failed };
+	}
+
+	// vaultのイベントによる差分更新
+	queueFile(file: TFile) {
+		if (!this.shouldIndex(file)) return;
+		this.pending.add(file.path);
+		this.flushPending();
+	}
+
+	async removeFile(path: string) {
+		const data = await this.load();
+		if (data.files[path]) {
+			delete data.files[path];
+			await this.save();
+		}
+	}
+
+	async renameFile(file: TFile, oldPath: string) {
+		const data = await this.load();
+		const entry = data.files[oldPath];
+		if (!entry) return;
+
+		delete data.files[oldPath];
+		if (this.shouldIndex(file)) {
+			data.files[file.path] = entry;
+		}
+		await this.save();
+	}
+
+	async indexPending() {
+		const paths = Array.from(this.pending);
+		this.pending.clear();
+
+		for (const path of paths) {
+			const file = this.plugin.app.vault.getAbstractFileByPath(path);
+			if (!(file instanceof TFile)) continue;
+			try {
+				await this.indexFile(file);
+			} catch (error) {
+				this.plugin.debugLogger.error('index', '❌ Index update failed', { path, error: error.message });
+			}
+		}
+
+		await this.save();
+	}
+
+	// 質問に近いチャンクを上位k件取得（コサイン類似度）
+	async search(query: string, topK: number): Promise<VaultSearchResult[]> {
+		const data = await this.load();
+		const [queryEmbedding] = await this.plugin.callEmbeddings([query]);
+
+		const results: VaultSearchResult[] = [];
+		Object.entries(data.files).forEach(([path, entry]) => {
+			entry.chunks.forEach((chunk) => {
+				results.push({
+					path,
+					heading: chunk.heading,
+					text: chunk.text,
+					score: cosineSimilarity(queryEmbedding, chunk.embedding),
+				});
+			});
+		});
+
+		return results.sort((a, b) => b.score - a.score).slice(0, topK);
+	}
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+	let dot = 0;
+	let normA = 0;
+	let normB = 0;
+	for (let i = 0; i < a.length && i < b.length; i++) {
+		dot += a[i] * b[i];
+		normA += a[i] * a[i];
+		normB += b[i] * b[i];
+	}
+	return normA && normB ? dot / (Math.sqrt(normA) * Math.sqrt(normB)) : 0;
+}
+
+// モデルが呼び出したfunctionツール
+interface ToolCall {
+	id: string; // call_id（結果を返すときに使う）
+	name: string;
+	arguments: string; // JSON文字列
+}
+
+type ToolCallStatus = 'running' | 'ok' | 'rejected' | 'error';
+
+const TOOL_STATUS_ICONS: Record<ToolCallStatus, string> = {
+	'running': '⏳',
+	'ok': '✅',
+	'rejected': '🚫',
+	'error': '⚠️',
+};
+
+// 会話に残すツール呼び出しの記録
+interface ToolCallLog {
+	name: string;
+	args: string; // 表示用に短くした引数
+	status: ToolCallStatus;
+	result: string; // 結果の要約（1行）
+}
+
+// 書き込むツールの変更内容（承認カードに表示し、承認後にそのまま反映する）
+interface ToolChange {
+	kind: 'create' | 'append' | 'task';
+	title: string;
+	path: string;
+	content: string; // 書き込む内容
+	context: string; // 追記の場合はノートの末尾（どこに追記されるか分かるように）
+}
+
+// 1回の回答で続けてツールを呼び出せる回数（超えたらツールなしで回答させる）
+const MAX_TOOL_STEPS = 8;
+
+// チャットでモデルが使えるvaultの操作（strictモードのため全ての引数をrequiredにし、省略はnullで表す）
+const VAULT_TOOL_DEFINITIONS = [
+	{
+		type: 'function',
+		name: 'search_notes',
+		description: "Search the user's notes. Returns matching note paths with a short excerpt.",
+		parameters: {
+			type: 'object',
+			properties: {
+				query: { type: 'string', description: 'Words or a question to search for' },
+				limit: { type: ['integer', 'null'], description: 'Maximum number of results (default 10)' },
+			},
+			required: ['query', 'limit'],
+			additionalProperties: false,
+		},
+		strict: true,
+	},
+	{
+		type: 'function',
+		name: 'read_note',
+		description: 'Read the content of a note. Long notes are truncated.',
+		parameters: {
+			type: 'object',
+			properties: {
+				path: { type: 'string', description: 'Vault path of the note, e.g. "Projects/Plan.md", or its name' },
+			},
+			required: ['path'],
+			additionalProperties: false,
+		},
+		strict: true,
+	},
+	{
+		type: 'function',
+		name: 'list_folder',
+		description: 'List the notes and subfolders in a folder. Subfolders end with "/".',
+		parameters: {
+			type: 'object',
+			properties: {
+				path: { type: 'string', description: 'Folder path; "/" for the vault root' },
+			},
+			required: ['path'],
+			additionalProperties: false,
+		},
+		strict: true,
+	},
+	{
+		type: 'function',
+		name: 'create_note',
+		description: 'Create a new Markdown note. Fails if the note already exists. The user must approve the change.',
+		parameters: {
+			type: 'object',
+			properties: {
+				path: { type: 'string', description: 'Vault path of the new note, e.g. "Inbox/Idea.md"' },
+				content: { type: 'string', description: 'Markdown content of the note' },
+			},
+			required: ['path', 'content'],
+			additionalProperties: false,
+		},
+		strict: true,
+	},
+	{
+		type: 'function',
+		name: 'append_to_note',
+		description: 'Append Markdown to the end of an existing note. The user must approve the change.',
+		parameters: {
+			type: 'object',
+			properties: {
+				path: { type: 'string', description: 'Vault path of the note' },
+				content: { type: 'string', description: 'Markdown to append' },
+			},
+			required: ['path', 'content'],
+			additionalProperties: false,
+		},
+		strict: true,
+	},
+	{
+		type: 'function',
+		name: 'add_task',
+		description: 'Add a task ("- [ ] ...") to the end of a note. The user must approve the change.',
+		parameters: {
+			type: 'object',
+			properties: {
+				path: { type: ['string', 'null'], description: 'Vault path of the note; null for the note the chat is about' },
+				task: { type: 'string', description: 'Task text' },
+				due: { type: ['string', 'null'], description: 'Due date as YYYY-MM-DD, or null' },
+			},
+			required: ['path', 'task', 'due'],
+			additionalProperties: false,
+		},
+		strict: true,
+	},
+];
+
+// vaultを変更するツール（実行前にユーザーの承認が必要）
+const WRITE_TOOLS = new Set(['create_note', 'append_to_note', 'add_task']);
+
+// 表示・記録用に引数を1行にまとめる（長い文字列は省略）
+function summarizeToolArgs(args: string): string {
+	try {
+		return Object.entries(JSON.parse(args || '{}'))
+			.filter(([, value]) => value !== null)
+			.map(([key, value]) => {
+				let text = typeof value === 'string' ? value : JSON.stringify(value);
+				text = text.replace(/\s+/g, ' ').replace(/`/g, "'");
+				return `${key}="${text.length > 60 ? `${text.substring(0, 60)}…` : text}"`;
+			})
+			.join(' ');
+	} catch (error) {
+		return args.substring(0, 60);
+	}
+}
+
+// チャットのツールを実行する（書き込みはdescribeChangeで内容を確定し、承認後にapplyChangeで反映する）
+class VaultTools {
+	private plugin: ChatGPTPlugin;
+
+	constructor(plugin: ChatGPTPlugin) {
+		this.plugin = plugin;
+	}
+
+	// 読み取りのツールを実行し、モデルに返す結果と記録用の要約を返す
+	async run(name: string, args: any, sourcePath: string): Promise<{ output: string; summary: string }> {
+		switch (name) {
+			case 'search_notes':
+				return this.searchNotes(String(args.query || ''), Math.min(Math.max(args.limit || 10, 1), 50));
+			case 'read_note': {
+				const file = this.resolveNote(args.path, sourcePath);
+				const content = await this.plugin.app.vault.cachedRead(file);
+				const output = trimToTokens(content, this.plugin.settings.contextTokenBudget);
+				return {
+					output: `${file.path}\n\n${output}`,
+					summary: `${file.path} (${output.length < content.length ? 'truncated, ' : ''}≈ ${estimateTokens(output).toLocaleString()} tokens)`,
+				};
+			}
+			case 'list_folder': {
+				const path = this.checkPath(args.path || '/');
+				const folder = path === '/' ? this.plugin.app.vault.getRoot() : this.plugin.app.vault.getAbstractFileByPath(path);
+				if (!(folder instanceof TFolder)) throw new Error(`Folder not found: ${path}`);
+				const entries = folder.children
+					.filter((child) => !child.name.startsWith('.'))
+					.map((child) => child instanceof TFolder ? `${child.path}/` : child.path)
+					.sort();
+				return {
+					output: entries.slice(0, 200).join('\n') + (entries.length > 200 ? `\n... and ${entries.length - 200} more` : ''),
+					summary: `${entries.length} entries`,
+				};
+			}
+			default:
+				throw new Error(`Unknown tool: ${name}`);
+		}
+	}
+
+	// 書き込むツールの変更内容を作る（ノートが無い・既にある場合はここでエラーにする）
+	async describeChange(name: string, args: any, sourcePath: string): Promise<ToolChange> {
+		switch (name) {
+			case 'create_note': {
+				let path = this.checkPath(args.path || '');
+				if (!/\.md$/i.test(path)) path += '.md';
+				if (this.plugin.app.vault.getAbstractFileByPath(path)) throw new Error(`A note already exists at ${path}`);
+				return { kind: 'create', title: 'Create note', path, content: String(args.content || ''), context: '' };
+			}
+			case 'append_to_note':
+			case 'add_task': {
+				const file = this.resolveNote(args.path || sourcePath, sourcePath);
+				const lines = (await this.plugin.app.vault.read(file)).trimEnd().split('\n');
+				const context = lines.slice(-3).join('\n');
+				if (name === 'append_to_note') {
+					return { kind: 'append', title: 'Append to note', path: file.path, content: String(args.content || '').trim(), context };
+				}
+				const task = `- [ ] ${String(args.task || '').trim()}${args.due ? ` 📅 ${args.due}` : ''}`;
+				return { kind: 'task', title: 'Add task', path: file.path, content: task, context };
+			}
+			default:
+				throw new Error(`Unknown tool: ${name}`);
+		}
+	}
+
+	// 承認された変更を反映し、モデルに返す結果を返す
+	async applyChange(change: ToolChange): Promise<string> {
+		const { vault } = this.plugin.app;
+		if (change.kind === 'create') {
+			const folder = change.path.split('/').slice(0, -1).join('/');
+			if (folder && !vault.getAbstractFileByPath(folder)) {
+				await vault.createFolder(folder);
+			}
+			await vault.create(change.path, change.content);
+			return `Created ${change.path}`;
+		}
+
+		const file = vault.getAbstractFileByPath(change.path);
+		if (!(file instanceof TFile)) throw new Error(`Note not found: ${change.path}`);
+		await vault.process(file, (text) => {
+			const body = text.trimEnd();
+			if (!body) return `${change.content}\n`;
+			// タスクはタスクの一覧の続きなら空行を入れない
+			const lastLine = body.split('\n').pop() || '';
+			const separator = change.kind === 'task' && /^\s*[-*] \[.\]/.test(lastLine) ? '\n' : '\n\n';
+			return `${body}${separator}${change.content}\n`;
+		});
+		return change.kind === 'task' ? `Added the task to ${change.path}` : `Appended to ${change.path}`;
+	}
+
+	// vault外・設定フォルダのパスは扱わない
+	checkPath(path: string): string {
+		const normalized = normalizePath(String(path).replace(/^\[\[|\]\]$/g, ''));
+		const configDir = this.plugin.app.vault.configDir;
+		if (normalized.split('/').includes('..') || normalized === configDir || normalized.startsWith(`${configDir}/`)) {
+			throw new Error(`Not allowed: ${path}`);
+		}
+		return normalized;
+	}
+
+	// パス・拡張子を省いたパス・ノート名（リンクと同じ解決）の順に探す
+	resolveNote(path: string, sourcePath: string): TFile {
+		const normalized = this.checkPath(path || '');
+		const { vault, metadataCache } = this.plugin.app;
+		const file = vault.getAbstractFileByPath(normalized) || vault.getAbstractFileByPath(`${normalized}.md`)
+			|| metadataCache.getFirstLinkpathDest(normalized.replace(/\.md$/i, ''), sourcePath);
+		if (!(file instanceof TFile) || file.extension !== 'md') throw new Error(`Note not found: ${path}`);
+		return file;
+	}
+
+	// インデックスがあれば意味で、無ければ語句を含むノートを探す
+	async searchNotes(query: string, limit: number): Promise<{ output: string; summary: string }> {
+		if (!query.trim()) throw new Error('The query is empty');
+
+		if (this.plugin.settings.vaultIndexEnabled) {
+			try {
+				const results = await this.plugin.vaultIndex.search(query, limit);
+				return {
+					output: results
+						.map((result) => `${result.path}${result.heading ? `#${result.heading}` : ''}\n${result.text.substring(0, 300)}`)
+						.join('\n\n') || 'No matching notes',
+					summary: `${results.length} results`,
+				};
+			} catch (error) {
+				this.plugin.debugLogger.warn('tools', '⚠️ Index search failed, using keyword search', { error: error.message });
+			}
+		}
+
+		// 語句ごとの一致数でスコアを付ける（パスの一致は重く数える）
+		const terms = query.toLowerCase().split(/\s+/).filter((term) => term);
+		const results: Array<{ path: string; excerpt: string; score: number }> = [];
+		for (const file of this.plugin.app.vault.getMarkdownFiles()) {
+			const content = await this.plugin.app.vault.cachedRead(file);
+			const lower = content.toLowerCase();
+			const path = file.path.toLowerCase();
+			const score = terms.reduce((sum, term) =>
+				sum + (path.includes(term) ? 3 : 0) + (lower.includes(term) ? 1 : 0), 0);
+			if (score === 0) continue;
+
+			const index = terms.map((term) => lower.indexOf(term)).find((i) => i >= 0) ?? 0;
+			const excerpt = content.substring(Math.max(0, index - 80), index + 160).replace(/\s+/g, ' ').trim();
+			results.push({ path: file.path, excerpt, score });
+		}
+		results.sort((a, b) => b.score - a.score);
+
+		const top = results.slice(0, limit);
+		return {
+			output: top.map((result) => `${result.path}\n${result.excerpt}`).join('\n\n') || 'No matching notes',
+			summary: `${top.length} results`,
+		};
+	}
+}
+
+// モデルが提案するノートのメタデータ
+interface NoteMetadata {
+	summary: string;
+	tags: string[];
+	aliases: string[];
+	category: string;
+}
+
+// Frontmatterに加える変更（プレビュー用）
+interface MetadataChange {
+	key: keyof NoteMetadata;
+	before: string | string[] | undefined;
+	after: string | string[];
+}
+
+const METADATA_SYSTEM_PROMPT = [
+	'You write metadata for an Obsidian note. Reply with a single JSON object and nothing else:',
+	'{"summary": string, "tags": string[], "aliases": string[], "category": string}',
+	'- summary: one or two sentences, in the language of the note',
+	'- tags: 3 to 6 tags without "#". Prefer the existing tags listed; only invent a new tag when none fits',
+	'- aliases: other names, abbreviations or translations of the note\'s subject (may be empty)',
+	'- category: one short word or phrase describing the kind of note',
+].join('\n');
+
+// 回答のJSONをメタデータとして読み込む（コードブロックや前後の文章は無視する）
+function parseNoteMetadata(text: string): NoteMetadata {
+	const start = text.indexOf('{');
+	const end = text.lastIndexOf('}');
+	let data: any;
+	try {
+		data = JSON.parse(text.substring(start, end + 1));
+	} catch (e) {
+		throw new Error('The model did not return valid metadata JSON');
+	}
+	const strings = (value: any): string[] =>
+		Array.isArray(value) ? value.map((item) => String(item).trim()).filter((item) => item) : [];
+	return {
+		summary: typeof data.summary === 'string' ? data.summary.trim() : '',
+		tags: strings(data.tags).map((tag) => tag.replace(/^#/, '').replace(/\s+/g, '-')),
+		aliases: strings(data.aliases),
+		category: typeof data.category === 'string' ? data.category.trim() : '',
+	};
+}
+
+// 既存の値は上書きせず、足りないものだけ加える（タグとエイリアスは大文字小文字を区別せず和集合）
+function mergeNoteMetadata(frontmatter: any, metadata: NoteMetadata): MetadataChange[] {
+	const changes: MetadataChange[] = [];
+	const toList = (value: any): string[] => {
+		if (value === undefined || value === null) return [];
+		return (Array.isArray(value) ? value : String(value).split(','))
+			.map((item: any) => String(item).trim())
+			.filter((item: string) => item);
+	};
+	const addList = (key: 'tags' | 'aliases', values: string[]) => {
+		const before = toList(frontmatter?.[key]);
+		const known = new Set(before.map((item) => item.replace(/^#/, '').toLowerCase()));
+		const added = values.filter((item) => {
+			const normalized = item.toLowerCase();
+			if (known.has(normalized)) return false;
+			known.add(normalized);
+			return true;
+		});
+		if (added.length > 0) {
+			changes.push({ key, before: before.length > 0 ? before : undefined, after: [...before, ...added] });
+		}
+	};
+
+	if (metadata.summary && !frontmatter?.summary) {
+		changes.push({ key: 'summary', before: undefined, after: metadata.summary });
+	}
+	addList('tags', metadata.tags);
+	addList('aliases', metadata.aliases);
+	if (metadata.category && !frontmatter?.category) {
+		changes.push({ key: 'category', before: undefined, after: metadata.category });
+	}
+	return changes;
+}
+
+// 構造化出力がJSONとして読めない・スキーマに合わない場合のエラー
+class StructuredOutputError extends Error {
+	errors: string[]; // 問題の箇所ごとのメッセージ
+	raw: string; // モデルの回答
+
+	constructor(errors: string[], raw: string) {
+		const more = errors.length > 3 ? ` (and ${errors.length - 3} more)` : '';
+		super(`The response does not match the output schema: ${errors.slice(0, 3).join('; ')}${more}`);
+		this.name = 'StructuredOutputError';
+		this.errors = errors;
+		this.raw = raw;
+	}
+}
+
+// テンプレートのOutput schemaを読み込む（ルートはオブジェクトに限る。Responses APIの制約）
+function parseOutputSchema(template: PromptTemplate): any {
+	let schema: any;
+	try {
+		schema = JSON.parse(template.outputSchema || '');
+	} catch (error) {
+		throw new Error(`The output schema of "${template.name}" is not valid JSON: ${error.message}`);
+	}
+	if (!schema || typeof schema !== 'object' || schema.type !== 'object') {
+		throw new Error(`The output schema of "${template.name}" must describe an object ("type": "object")`);
+	}
+	return schema;
+}
+
+// OpenAIのstrictモードの条件（全てのオブジェクトがadditionalProperties: falseで、全プロパティがrequired）を満たすか
+// 満たさないスキーマをstrictで送るとエラーになるため、その場合はstrictにせず回答を検証する
+function isStrictJsonSchema(schema: any): boolean {
+	if (!schema || typeof schema !== 'object') return true;
+	if (Array.isArray(schema)) return schema.every(isStrictJsonSchema);
+	if (schema.properties) {
+		const required: string[] = schema.required || [];
+		if (schema.additionalProperties !== false) return false;
+		if (!Object.keys(schema.properties).every((key) => required.includes(key))) return false;
+	}
+	return Object.values(schema).every(isStrictJsonSchema);
+}
+
+// JSON Schemaの主なキーワードで値を検証し、問題の箇所ごとのメッセージを返す
+// type・properties・required・additionalProperties・items・enum・const・anyOf/oneOf・$ref・範囲と長さの制約に対応
+function validateJsonSchema(value: any, schema: any, path: string = '$', root: any = schema): string[] {
+	if (!schema || typeof schema !== 'object') return [];
+
+	// スキーマ内の参照（#/$defs/xyz）をたどる
+	if (typeof schema.$ref === 'string' && schema.$ref.startsWith('#')) {
+		const target = schema.$ref.slice(1).split('/').filter((key: string) => key)
+			.reduce((node: any, key: string) => node?.[key.replace(/~1/g, '/').replace(/~0/g, '~')], root);
+		return validateJsonSchema(value, target, path, root);
+	}
+
+	const typeOf = (v: any): string =>
+		v === null ? 'null' : Array.isArray(v) ? 'array' : Number.isInteger(v) ? 'integer' : typeof v;
+	const show = (v: any) => JSON.stringify(v);
+
+	const alternatives: any[] | undefined = schema.anyOf || schema.oneOf;
+	if (alternatives) {
+		const results = alternatives.map((option) => validateJsonSchema(value, option, path, root));
+		if (!results.some((errors) => errors.length === 0)) {
+			// 最も近い候補のエラーを返す
+			return results.reduce((best, errors) => errors.length < best.length ? errors : best);
+		}
+	}
+
+	if (schema.type) {
+		const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+		const actual = typeOf(value);
+		if (!types.some((type) => type === actual || (type === 'number' && actual === 'integer'))) {
+			return [`${path}: expected ${types.join(' or ')}, got ${actual}`];
+		}
+	}
+
+	const errors: string[] = [];
+	if (schema.const !== undefined && show(value) !== show(schema.const)) {
+		errors.push(`${path}: must be ${show(schema.const)}`);
+	}
+	if (Array.isArray(schema.enum) && !schema.enum.some((option: any) => show(option) === show(value))) {
+		errors.push(`${path}: must be one of ${schema.enum.map(show).join(', ')}`);
+	}
+
+	if (typeof value === 'number') {
+		if (typeof schema.minimum === 'number' && value < schema.minimum) errors.push(`${path}: must be at least ${schema.minimum}`);
+		if (typeof schema.maximum === 'number' && value > schema.maximum) errors.push(`${path}: must be at most ${schema.maximum}`);
+	} else if (typeof value === 'string') {
+		if (typeof schema.minLength === 'number' && value.length < schema.minLength) {
+			errors.push(`${path}: must be at least ${schema.minLength} characters`);
+		}
+		if (typeof schema.maxLength === 'number' && value.length > schema.maxLength) {
+			errors.push(`${path}: must be at most ${schema.maxLength} characters`);
+		}
+		if (typeof schema.pattern === 'string' && !new RegExp(schema.pattern).test(value)) {
+			errors.push(`${path}: must match ${schema.pattern}`);
+		}
+	} else if (Array.isArray(value)) {
+		if (typeof schema.minItems === 'number' && value.length < schema.minItems) errors.push(`${path}: must have at least ${schema.minItems} items`);
+		if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) errors.push(`${path}: must have at most ${schema.maxItems} items`);
+		if (schema.items) {
+			value.forEach((item, i) => errors.push(...validateJsonSchema(item, schema.items, `${path}[${i}]`, root)));
+		}
+	} else if (value && typeof value === 'object') {
+		const properties = schema.properties || {};
+		(schema.required || []).forEach((key: string) => {
+			if (!(key in value)) errors.push(`${path}.${key}: missing required property`);
+		});
+		Object.entries(value).forEach(([key, item]) => {
+			if (key in properties) {
+				errors.push(...validateJsonSchema(item, properties[key], `${path}.${key}`, root));
+			} else if (schema.additionalProperties === false) {
+				errors.push(`${path}.${key}: unexpected property`);
+			} else if (typeof schema.additionalProperties === 'object') {
+				errors.push(...validateJsonSchema(item, schema.additionalProperties, `${path}.${key}`, root));
+			}
+		});
+	}
+	return errors;
+}
+
+// 回答をJSONとして読み込み、スキーマで検証する（コードブロックで囲まれた回答にも対応）
+function parseStructuredOutput(text: string, schema: any): any {
+	const json = text.trim().replace(/^```(?:json)?\s*\n?/i, '').replace(/\n?```$/, '');
+	let value: any;
+	try {
+		value = JSON.parse(json);
+	} catch (error) {
+		throw new StructuredOutputError([`The response is not valid JSON (${error.message})`], text);
+	}
+	const errors = validateJsonSchema(value, schema);
+	if (errors.length > 0) {
+		throw new StructuredOutputError(errors, text);
+	}
+	return value;
+}
+
+// 表・タスクにする配列（ルートが配列でなければ最初の配列プロパティ）
+function findOutputRows(value: any): any[] {
+	if (Array.isArray(value)) return value;
+	if (value && typeof value === 'object') {
+		const rows = Object.values(value).find(Array.isArray);
+		if (rows) return rows as any[];
+	}
+	return value === undefined || value === null ? [] : [value];
+}
+
+function formatOutputValue(value: any): string {
+	if (value === undefined || value === null) return '';
+	if (Array.isArray(value)) return value.map(formatOutputValue).join(', ');
+	if (typeof value === 'object') return JSON.stringify(value);
+	return String(value);
+}
+
+// タスクの本文・完了状態・期限として扱うプロパティ名
+const TASK_TEXT_KEYS = ['task', 'title', 'text', 'name', 'description'];
+const TASK_DONE_KEYS = ['done', 'completed', 'checked'];
+const TASK_DUE_KEYS = ['due', 'dueDate', 'due_date', 'deadline'];
+
+// 構造化出力をMarkdownに整形する（Frontmatterの場合はプロパティとして書き込むため使わない）
+function renderStructuredOutput(value: any, format: StructuredOutputFormat): string {
+	switch (format) {
+		case 'table': {
+			const rows = findOutputRows(value).map((row) =>
+				row && typeof row === 'object' && !Array.isArray(row) ? row : { value: row });
+			if (rows.length === 0) return '';
+			const columns: string[] = [];
+			rows.forEach((row) => Object.keys(row).forEach((key) => {
+				if (!columns.includes(key)) columns.push(key);
+			}));
+			const cell = (v: any) => formatOutputValue(v).replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+			return [
+				`| ${columns.map(cell).join(' | ')} |`,
+				`| ${columns.map(() => '---').join(' | ')} |`,
+				...rows.map((row) => `| ${columns.map((column) => cell(row[column])).join(' | ')} |`),
+			].join('\n');
+		}
+		case 'tasks':
+			return findOutputRows(value).map((item) => {
+				if (!item || typeof item !== 'object') return `- [ ] ${formatOutputValue(item)}`;
+				const textKey = TASK_TEXT_KEYS.find((key) => typeof item[key] === 'string')
+					?? Object.keys(item).find((key) => typeof item[key] === 'string');
+				const done = TASK_DONE_KEYS.some((key) => item[key] === true);
+				let line = `- [${done ? 'x' : ' '}] ${textKey ? item[textKey] : ''}`.trimEnd();
+				const details: string[] = [];
+				Object.entries(item).forEach(([key, v]) => {
+					if (key === textKey || TASK_DONE_KEYS.includes(key) || v === null || v === '') return;
+					// 期限はTasksプラグインの形式にする
+					if (TASK_DUE_KEYS.includes(key) && typeof v === 'string') {
+						line += ` 📅 ${v}`;
+					} else {
+						details.push(`${key}: ${formatOutputValue(v)}`);
+					}
+				});
+				return details.length > 0 ? `${line} (${details.join('; ')})` : line;
+			}).join('\n');
+		case 'frontmatter':
+			return `---\n${stringifyYaml(value)}---`;
+		default:
+			return `\`\`\`json\n${JSON.stringify(value, null, 2)}\n\`\`\``;
+	}
+}
+
+// 一括処理の対象と、結果の書き込み先
+type BatchTargetType = 'folder' | 'tag' | 'query';
+type BatchWriteMode = 'append' | 'frontmatter' | 'sibling';
+
+const BATCH_TARGET_LABELS: Record<BatchTargetType, string> = {
+	'folder': 'Folder',
+	'tag': 'Tag',
+	'query': 'Search (path or text)',
+};
+
+const BATCH_WRITE_MODE_LABELS: Record<BatchWriteMode, string> = {
+	'append': 'Append to each note',
+	'frontmatter': 'Frontmatter field',
+	'sibling': 'New note next to each note',
+};
+
+interface BatchJob {
+	template: PromptTemplate | null; // nullの場合はメタデータの付与
+	files: TFile[];
+	writeMode: BatchWriteMode;
+	frontmatterField: string;
+	concurrency: number;
+}
+
+interface BatchResult {
+	file: TFile;
+	ok: boolean;
+	error?: string;
+	output?: TFile; // 書き込んだノート（sibling以外は元のノート）
+	cost: number;
+}
+
+// テンプレートを複数のノートに実行する（同時実行数を制限し、一時停止・再開・中止できる）
+class BatchRunner {
+	private plugin: ChatGPTPlugin;
+	job: BatchJob;
+	results: BatchResult[] = [];
+	paused: boolean = false;
+	running: boolean = false;
+	onProgress: () => void = () => {};
+	private controller = new AbortController();
+	private resumeWaiters: Array<() => void> = [];
+
+	constructor(plugin: ChatGPTPlugin, job: BatchJob) {
+		this.plugin = plugin;
+		this.job = job;
+	}
+
+	// 対象のノートを集める（会話ノートは除く）
+	static async findFiles(plugin: ChatGPTPlugin, type: BatchTargetType, value: string): Promise<TFile[]> {
+		const { vault, metadataCache } = plugin.app;
+		const files = vault.getMarkdownFiles()
+			.filter((file) => !plugin.chatHistory.isChatNote(file))
+			.sort((a, b) => a.path.localeCompare(b.path));
+		const target = value.trim();
+
+		switch (type) {
+			case 'folder': {
+				const folder = normalizePath(target || '/');
+				return folder === '/' ? files : files.filter((file) => file.path.startsWith(`${folder}/`));
+			}
+			case 'tag': {
+				const tag = `#${target.replace(/^#/, '')}`.toLowerCase();
+				return files.filter((file) => {
+					const cache = metadataCache.getFileCache(file);
+					const tags = cache ? getAllTags(cache) || [] : [];
+					// 親タグを指定した場合は子タグ（#project/xyz）も対象にする
+					return tags.some((t) => t.toLowerCase() === tag || t.toLowerCase().startsWith(`${tag}/`));
+				});
+			}
+			case 'query': {
+				const query = target.toLowerCase();
+				if (!query) return [];
+				const matches: TFile[] = [];
+				for (const file of files) {
+					if (file.path.toLowerCase().includes(query) ||
+						(await vault.cachedRead(file)).toLowerCase().includes(query)) {
+						matches.push(file);
+					}
+				}
+				return matches;
+			}
+		}
+	}
+
+	get name(): string {
+		return this.job.template ? this.job.template.name : 'Enrich note metadata';
+	}
+
+	get done(): number {
+		return this.results.length;
+	}
+
+	get cancelled(): boolean {
+		return this.controller.signal.aborted;
+	}
+
+	// ノートの内容からプロンプトを組み立てる
+	// {selection}はノートの本文。使わないテンプレートでは本文をコンテキストとして送る
+	async buildPrompt(file: TFile): Promise<{ prompt: string; context: string }> {
+		if (!this.job.template) {
+			return { prompt: await this.plugin.buildMetadataPrompt(file), context: '' };
+		}
+		const content = await this.plugin.app.vault.cachedRead(file);
+		const body = content.replace(/^---\n[\s\S]*?\n---\n/, '').trim();
+		const { userPrompt } = this.job.template;
+		const prompt = await this.plugin.expandTemplateVariables(userPrompt, body, file);
+		return { prompt, context: userPrompt.includes('{selection}') ? '' : body };
+	}
+
+	// 実行前の見積もり（プロンプトの長さから）
+	async estimate(): Promise<{ tokens: number; min: number; max: number }> {
+		const { template } = this.job;
+		const model = template?.model || this.plugin.settings.model;
+		const systemPrompt = template ? template.systemPrompt || this.plugin.settings.systemPrompt : METADATA_SYSTEM_PROMPT;
+		const total = { tokens: 0, min: 0, max: 0 };
+		for (const file of this.job.files) {
+			const { prompt, context } = await this.buildPrompt(file);
+			const estimate = this.plugin.estimateRequestCost(`${systemPrompt}\n${context}\n${prompt}`, model);
+			total.tokens += estimate.tokens;
+			total.min += estimate.min;
+			total.max += estimate.max;
+		}
+		return total;
+	}
+
+	async run(): Promise<BatchResult[]> {
+		this.running = true;
+		let next = 0;
+
+		// 同時実行数だけワーカーを動かし、空いたワーカーが次のノートを取る
+		const worker = async () => {
+			while (!this.cancelled) {
+				if (this.paused) {
+					await new Promise<void>((resolve) => this.resumeWaiters.push(resolve));
+					continue;
+				}
+				const index = next++;
+				if (index >= this.job.files.length) return;
+				this.results.push(await this.processFile(this.job.files[index]));
+				this.onProgress();
+			}
+		};
+
+		const workers = Math.max(1, Math.min(this.job.concurrency, this.job.files.length));
+		await Promise.all(Array.from({ length: workers }, worker));
+		this.running = false;
+		return this.results;
+	}
+
+	pause() {
+		this.paused = true;
+	}
+
+	resume() {
+		this.paused = false;
+		this.resumeWaiters.splice(0).forEach((resolve) => resolve());
+	}
+
+	// 処理中のリクエストも中止する（未処理のノートはスキップ）
+	cancel() {
+		this.controller.abort();
+		this.resume();
+	}
+
+	async processFile(file: TFile): Promise<BatchResult> {
+		const { template } = this.job;
+		let cost = 0;
+		const onUsage = (record: UsageRecord) => {
+			cost += record.estimatedCost;
+		};
+		try {
+			// メタデータはプレビュー無しで既存の値とマージする（見積もりで対象を確認済み）
+			if (!template) {
+				const metadata = await this.plugin.generateNoteMetadata(file, {
+					signal: this.controller.signal,
+					source: `Batch: ${this.name}`,
+					onUsage,
+				});
+				if (this.cancelled) {
+					return { file, ok: false, error: 'Cancelled', cost };
+				}
+				await this.plugin.applyNoteMetadata(file, metadata);
+				return { file, ok: true, output: file, cost };
+			}
+
+			const { prompt, context } = await this.buildPrompt(file);
+			const overrides = this.plugin.getTemplateOverrides(template);
+			let response = '';
+			let value: any;
+			for (let attempt = 0; ; attempt++) {
+				response = await this.plugin.callOpenAI(prompt, {
+					signal: this.controller.signal,
+					context,
+					source: `Batch: ${template.name}`,
+					notePath: file.path,
+					onUsage,
+					...overrides,
+				});
+				if (this.cancelled) {
+					return { file, ok: false, error: 'Cancelled', cost };
+				}
+				if (!overrides.jsonSchema) break;
+				// スキーマに合わない回答は1回だけ再試行する
+				try {
+					value = parseStructuredOutput(response, overrides.jsonSchema);
+					break;
+				} catch (error) {
+					if (!(error instanceof StructuredOutputError) || attempt >= 1) throw error;
+				}
+			}
+
+			if (overrides.jsonSchema) {
+				// Frontmatter形式は書き込み先に関わらずノートのプロパティにする
+				if (template.outputFormat === 'frontmatter') {
+					await this.plugin.applyStructuredProperties(file, value);
+					return { file, ok: true, output: file, cost };
+				}
+				response = renderStructuredOutput(value, template.outputFormat || 'json');
+			}
+			const output = await this.write(file, response);
+			return { file, ok: true, output, cost };
+		} catch (error) {
+			return { file, ok: false, error: this.cancelled ? 'Cancelled' : error.message, cost };
+		}
+	}
+
+	// 結果をノートに書き込む
+	async write(file: TFile, response: string): Promise<TFile> {
+		const { app } = this.plugin;
+		switch (this.job.writeMode) {
+			case 'frontmatter':
+				await app.fileManager.processFrontMatter(file, (frontmatter) => {
+					frontmatter[this.job.frontmatterField] = response;
+				});
+				return file;
+			case 'sibling': {
+				const folder = file.parent && !file.parent.isRoot() ? `${file.parent.path}/` : '';
+				const baseName = `${file.basename} - ${this.name}`.replace(/[\\/:*?"<>|#^[\]]/g, '');
+				let path = normalizePath(`${folder}${baseName}.md`);
+				let counter = 1;
+				while (app.vault.getAbstractFileByPath(path)) {
+					path = normalizePath(`${folder}${baseName} ${counter}.md`);
+					counter++;
+				}
+				return app.vault.create(path, `Source: ${app.fileManager.generateMarkdownLink(file, path)}\n\n${response}\n`);
+			}
+			default: {
+				// 既存の脚注と番号が重ならないようにする
+				const [prefix, suffix] = this.plugin.splitResponseFormat();
+				await app.vault.process(file, (data) => {
+					const text = renumberFootnotes(response, maxFootnoteNumber(data));
+					return `${data.trimEnd()}\n\n${prefix}${text}${suffix}\n`;
+				});
+				return file;
+			}
+		}
+	}
+
+	// 結果の一覧をノートとして保存
+	async saveReport(): Promise<TFile> {
+		const { app } = this.plugin;
+		const succeeded = this.results.filter((result) => result.ok);
+		const failed = this.results.filter((result) => !result.ok);
+		const skipped = this.job.files.length - this.results.length;
+		const cost = this.results.reduce((sum, result) => sum + result.cost, 0);
+		const path = normalizePath(`ChatGPT batch ${moment().format('YYYY-MM-DD HHmmss')}.md`);
+		const link = (file: TFile) => app.fileManager.generateMarkdownLink(file, path);
+
+		let content = `# ${this.name}\n\n`;
+		content += `- Notes: ${this.job.files.length}\n- Succeeded: ${succeeded.length}\n- Failed: ${failed.length}\n`;
+		if (skipped > 0) content += `- Skipped: ${skipped}\n`;
+		content += `- Estimated cost: $${cost.toFixed(4)}\n`;
+		if (succeeded.length > 0) {
+			content += `\n## Succeeded\n\n${succeeded.map((result) => `- ${link(result.output || result.file)}`).join('\n')}\n`;
+		}
+		if (failed.length > 0) {
+			content += `\n## Failed\n\n${failed.map((result) => `- ${link(result.file)}: ${result.error}`).join('\n')}\n`;
+		}
+		return app.vault.create(path, content);
+	}
+}
+
+// 書き換え前後の差分（変更箇所ごとに採用・不採用を選べる）
+type DiffPart =
+	| { type: 'equal'; text: string }
+	| { type: 'change'; removed: string; added: string; accepted: boolean };
+
+// 単語単位に分割（空白・記号は1つずつ、日本語などの単語区切りの無い文字は1文字ずつ）
+function tokenizeWords(text: string): string[] {
+	return text.match(/[A-Za-z0-9_\u00C0-\u024F]+|\s+|[^\s]/gu) || [];
+}
+
+// 行単位に分割（改行は行末に含める）
+function tokenizeLines(text: string): string[] {
+	return text.match(/[^\n]*\n|[^\n]+/g) || [];
+}
+
+// LCSの表の最大サイズ（日本語の長い文章は1文字ずつ比較するため、これを超える場合は行単位にする）
+const MAX_DIFF_CELLS = 4000000;
+
+// 単語単位の差分（前後の共通部分を除いてからLCSで比較）
+// 表が大きすぎる場合は行単位で比較し、それでも大きすぎる場合は全体を1つの変更にする
+function diffWords(original: string, revised: string, tokenize: (text: string) => string[] = tokenizeWords): DiffPart[] {
+	const a = tokenize(original);
+	const b = tokenize(revised);
+
+	let prefix = 0;
+	while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+	let suffix = 0;
+	while (
+		suffix < a.length - prefix &&
+		suffix < b.length - prefix &&
+		a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+	) suffix++;
+
+	const midA = a.slice(prefix, a.length - suffix);
+	const midB = b.slice(prefix, b.length - suffix);
+	const tooLarge = midA.length * midB.length > MAX_DIFF_CELLS;
+	if (tooLarge && tokenize !== tokenizeLines) {
+		return diffWords(original, revised, tokenizeLines);
+	}
+	const n = tooLarge ? 0 : midA.length;
+	const m = tooLarge ? 0 : midB.length;
+
+	// lcs[i][j] = midA[i..]とmidB[j..]の最長共通部分列の長さ
+	const lcs = new Uint32Array((n + 1) * (m + 1));
+	for (let i = n - 1; i >= 0; i--) {
+		for (let j = m - 1; j >= 0; j--) {
+			lcs[i * (m + 1) + j] = midA[i] === midB[j]
+				? lcs[(i + 1) * (m + 1) + j + 1] + 1
+				: Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+		}
+	}
+
+	const parts: DiffPart[] = [];
+	const pushEqual = (text: string) => {
+		if (!text) return;
+		const last = parts[parts.length - 1];
+		if (last?.type === 'equal') last.text += text;
+		else parts.push({ type: 'equal', text });
+	};
+	const pushChange = (removed: string, added: string) => {
+		const last = parts[parts.length - 1];
+		if (last?.type === 'change') {
+			last.removed += removed;
+			last.added += added;
+		} else {
+			parts.push({ type: 'change', removed, added, accepted: true });
+		}
+	};
+
+	pushEqual(a.slice(0, prefix).join(''));
+	if (tooLarge) {
+		pushChange(midA.join(''), midB.join(''));
+	}
+	let i = 0;
+	let j = 0;
+	while (i < n || j < m) {
+		if (i < n && j < m && midA[i] === midB[j]) {
+			pushEqual(midA[i]);
+			i++;
+			j++;
+		} else if (j < m && (i >= n || lcs[i * (m + 1) + j + 1] >= lcs[(i + 1) * (m + 1) + j])) {
+			pushChange('', midB[j]);
+			j++;
+		} else {
+			pushChange(midA[i], '');
+			i++;
+		}
+	}
+	pushEqual(a.slice(a.length - suffix).join(''));
+
+	// 変更の間の空白1つだけの共通部分は、変更に含めて読みやすくする
+	for (let k = parts.length - 2; k > 0; k--) {
+		const part = parts[k];
+		const prev = parts[k - 1];
+		const next = parts[k + 1];
+		if (part.type === 'equal' && /^\s$/.test(part.text) && prev.type === 'change' && next.type === 'change') {
+			prev.removed += part.text + next.removed;
+			prev.added += part.text + next.added;
+			parts.splice(k, 2);
+		}
+	}
+
+	return parts;
+}
+
+// 採用した変更だけを反映したテキスト
+function applyDiff(parts: DiffPart[]): string {
+	return parts.map((part) => part.type === 'equal' ? part.text : part.accepted ? part.added : part.removed).join('');
+}
+
+// 挿入する内容
+interface InsertContent {
+	title: string; // コールアウトのタイトル
+	question: string; // 回答の前に入れる質問（空の場合は省略）
+	formatPrefix: string; // 回答の直前（Response Formatの{response}より前）
+	formatSuffix: string; // 回答の直後（Response Formatの{response}より後）
+}
+
+// 挿入モードに応じて回答をエディタ（または新しいノート）に書き込む
+// ストリーミング時は枠を先に挿入し、回答部分に部分テキストを追記していく
+// 書き込みのたびに挿入した枠を探し直すため、受信中にノートを編集しても位置はずれない
+// エディタが別のノートに切り替わった場合や枠が見つからなくなった場合は、完了時に元のノートのファイルに書き込む
+class ResponseInserter {
+	plugin: ChatGPTPlugin;
+	editor: Editor;
+	mode: InsertionMode;
+	file: TFile | null;
+	content: InsertContent;
+
+	// 挿入開始時点の選択範囲とカーソル
+	from: EditorPosition;
+	to: EditorPosition;
+	cursor: EditorPosition;
+
+	frameStart: number = -1; // 挿入した枠の位置（ドキュメント先頭からのオフセット、未挿入は-1）
+	frameBefore: string = ''; // 回答より前に挿入した枠
+	frameAfter: string = ''; // 回答より後ろに挿入した枠
+	written: string = ''; // エディタに書き込んだ回答（接頭辞付き）
+	linePrefix: string = ''; // 改行ごとに付ける接頭辞（コールアウト用）
+	received: string = '';
+	detached: boolean = false; // エディタへの書き込みをやめ、完了時にファイルに書き込む
+	onDetach: (() => void) | null = null;
+
+	constructor(plugin: ChatGPTPlugin, editor: Editor, mode: InsertionMode, file: TFile | null, content: InsertContent) {
+		this.plugin = plugin;
+		this.editor = editor;
+		this.mode = mode;
+		this.file = file;
+		this.content = content;
+		this.from = editor.getCursor('from');
+		this.to = editor.getCursor('to');
+		this.cursor = editor.getCursor('head');
+	}
+
+	// エディタがまだ挿入先のノートを表示しているか（ノートの無いエディタは常にtrue）
+	isTargetShown(): boolean {
+		return !this.file || this.plugin.editorShowsFile(this.editor, this.file.path);
+	}
+
+	// 挿入した枠の現在の位置（前回の位置に無ければ最も近い位置を探す、見つからなければ-1）
+	locateFrame(doc: string): number {
+		const frame = this.frameBefore + this.written + this.frameAfter;
+		if (doc.substr(this.frameStart, frame.length) === frame) return this.frameStart;
+
+		let best = -1;
+		for (let index = doc.indexOf(frame); index >= 0; index = doc.indexOf(frame, index + 1)) {
+			if (best < 0 || Math.abs(index - this.frameStart) < Math.abs(best - this.frameStart)) {
+				best = index;
+			}
+		}
+		return best;
+	}
+
+	// エディタへの書き込みをやめる（回答は完了時にファイルに書き込む）
+	detach() {
+		if (this.detached) return;
+		this.detached = true;
+		const target = this.file ? this.file.basename : 'the note';
+		new Notice(this.isTargetShown()
+			? `The answer's position in ${target} was edited. The answer will be added to the end of the note when it completes`
+			: `You switched notes. The answer will be saved to ${target} when it completes`);
+		this.onDetach?.();
+	}
+
+	// 部分テキストを書き込む（新しいノートの場合は完了まで溜めておく）
+	write(delta: string) {
+		// 先頭の空白は書き込まない
+		if (!this.received) {
+			delta = delta.replace(/^\s+/, '');
+			if (!delta) return;
+		}
+		this.received += delta;
+
+		if (this.mode === 'new-note' || this.detached) return;
+		if (!this.isTargetShown()) {
+			this.detach();
+			return;
+		}
+
+		if (this.frameStart < 0) {
+			this.insertFrame();
+		}
+		const start = this.locateFrame(this.editor.getValue());
+		if (start < 0) {
+			this.detach();
+			return;
+		}
+		this.frameStart = start;
+
+		const text = this.prefixLines(delta, this.linePrefix);
+		const offset = start + this.frameBefore.length + this.written.length;
+		this.editor.replaceRange(text, this.editor.offsetToPos(offset));
+		this.written += text;
+	}
+
+	// 書き込みを完了する（ストリーミングしなかった場合はまとめて書き込む）
+	// 完了時に内容が変わった場合（出典の脚注など）は書き込んだ回答を置き換える
+	// 何も挿入しなかった場合はfalseを返す
+	async finish(response: string): Promise<boolean> {
+		const final = (response || this.received).replace(/^\s+/, '');
+		if (!final) return false;
+		this.received = final;
+
+		if (this.mode === 'new-note') {
+			await this.createLinkedNote();
+			return true;
+		}
+
+		if (!this.detached && !this.isTargetShown()) {
+			this.detach();
+		}
+
+		if (!this.detached) {
+			if (this.frameStart < 0) {
+				this.insertFrame();
+			}
+			const edit = this.planFinalEdit(this.editor.getValue(), final);
+			this.editor.replaceRange(edit.text, this.editor.offsetToPos(edit.from), this.editor.offsetToPos(edit.to));
+
+			// 挿入した位置までスクロール
+			const endPos = this.editor.offsetToPos(edit.end);
+			this.editor.setCursor(endPos);
+			this.editor.scrollIntoView({ from: endPos, to: endPos }, true);
+			return true;
+		}
+
+		// ノートが切り替わった場合はファイルに、同じノートで位置が分からなくなった場合はエディタの末尾に書き込む
+		if (this.isTargetShown()) {
+			const edit = this.planFinalEdit(this.editor.getValue(), final);
+			this.editor.replaceRange(edit.text, this.editor.offsetToPos(edit.from), this.editor.offsetToPos(edit.to));
+		} else {
+			await this.plugin.app.vault.process(this.file!, (data) => {
+				const edit = this.planFinalEdit(data, final);
+				return data.substring(0, edit.from) + edit.text + data.substring(edit.to);
+			});
+		}
+		return true;
+	}
+
+	// 完了時の書き込み内容（書き込み途中の回答を置き換える。枠が見つからなければ末尾に枠ごと追加する）
+	// 脚注番号はノート内の既存の脚注と重ならないようにずらす
+	planFinalEdit(doc: string, response: string): { from: number; to: number; text: string; end: number } {
+		const start = this.frameStart < 0 ? -1 : this.locateFrame(doc);
+		if (start >= 0) {
+			const from = start + this.frameBefore.length;
+			const to = from + this.written.length;
+			const existing = maxFootnoteNumber(doc.substring(0, from) + doc.substring(to));
+			const text = this.prefixLines(renumberFootnotes(response, existing), this.linePrefix);
+			this.written = text;
+			return { from, to, text, end: from + text.length + this.frameAfter.length };
+		}
+
+		const frame = this.buildFrame(this.mode === 'callout' ? 'callout' : 'end');
+		const text = frame.before
+			+ this.prefixLines(renumberFootnotes(response, maxFootnoteNumber(doc)), frame.linePrefix)
+			+ frame.after;
+		return { from: doc.length, to: doc.length, text, end: doc.length + text.length };
+	}
+
+	prefixLines(text: string, linePrefix: string): string {
+		return linePrefix ? text.replace(/\n/g, `\n${linePrefix}`) : text;
+	}
+
+	// 挿入モードごとの枠（回答の前後に入れる質問・Response Format）
+	buildFrame(mode: InsertionMode): { before: string; after: string; linePrefix: string } {
+		const { content } = this;
+		if (mode === 'callout') {
+			const prefixLines = (text: string) => text.replace(/\n/g, '\n> ');
+			const question = content.question ? `**Question:** ${content.question}\n\n` : '';
+			return {
+				before: `\n\n> [!chatgpt]- ${content.title}\n> ${prefixLines(question + content.formatPrefix)}`,
+				after: `${prefixLines(content.formatSuffix)}\n`,
+				linePrefix: '> ',
+			};
+		}
+
+		const question = content.question ? `---\n\n**Question:**\n${content.question}\n\n` : '';
+		return {
+			before: `\n\n${question}${content.formatPrefix}`,
+			after: `${content.formatSuffix}\n`,
+			linePrefix: '',
+		};
+	}
+
+	// 質問と回答の枠を挿入し、回答の書き込み位置を決める
+	insertFrame() {
+		const { editor } = this;
+		let offset: number;
+
+		if (this.mode === 'replace') {
+			// 選択範囲を回答で置き換える（枠は付けない）
+			editor.replaceRange('', this.from, this.to);
+			this.frameStart = editor.posToOffset(this.from);
+			return;
+		}
+
+		const frame = this.buildFrame(this.mode);
+		let before = frame.before;
+		this.linePrefix = frame.linePrefix;
+
+		switch (this.mode) {
+			case 'cursor':
+				offset = editor.posToOffset(this.cursor);
+				break;
+			case 'below-selection':
+			case 'callout':
+				offset = editor.posToOffset({ line: this.to.line, ch: editor.getLine(this.to.line).length });
+				break;
+			case 'heading': {
+				const heading = this.plugin.settings.insertionHeading.trim() || 'ChatGPT';
+				const sectionEnd = this.findHeadingSectionEnd(heading);
+				if (sectionEnd !== null) {
+					offset = sectionEnd;
+				} else {
+					// 見出しが無い場合は末尾に作成
+					offset = this.getEndOffset();
+					before = `\n\n## ${heading}${before}`;
+				}
+				break;
+			}
+			default:
+				offset = this.getEndOffset();
+		}
+
+		editor.replaceRange(before + frame.after, editor.offsetToPos(offset));
+		this.frameStart = offset;
+		this.frameBefore = before;
+		this.frameAfter = frame.after;
+	}
+
+	getEndOffset(): number {
+		const lastLine = this.editor.lastLine();
+		return this.editor.posToOffset({ line: lastLine, ch: this.editor.getLine(lastLine).length });
+	}
+
+	// 見出しのセクション末尾（次の同レベル以上の見出しの手前）のオフセット
+	findHeadingSectionEnd(heading: string): number | null {
+		const target = heading.toLowerCase();
+		let level = 0;
+		let lastContentLine = -1;
+
+		for (let line = 0; line <= this.editor.lastLine(); line++) {
+			const text = this.editor.getLine(line);
+			const match = text.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+
+			if (level === 0) {
+				if (match && match[2].toLowerCase() === target) {
+					level = match[1].length;
+					lastContentLine = line;
+				}
+				continue;
+			}
+
+			if (match && match[1].length <= level) break;
+			if (text.trim()) lastContentLine = line;
+		}
+
+		if (level === 0) return null;
+		return this.editor.posToOffset({ line: lastContentLine, ch: this.editor.getLine(lastContentLine).length });
+	}
+
+	// 回答を新しいノートに保存し、選択範囲の下にリンクを挿入
+	async createLinkedNote() {
+		const { app } = this.plugin;
+		const sourcePath = this.file ? this.file.path : '';
+		const parent = app.fileManager.getNewFileParent(sourcePath);
+		const baseName = `${this.file ? this.file.basename : 'Untitled'} - ChatGPT ${moment().format('YYYY-MM-DD HHmmss')}`;
+		const path = normalizePath(`${parent.path}/${baseName}.md`);
+
+		const sourceLine = this.file ? `Source: ${app.fileManager.generateMarkdownLink(this.file, path)}\n\n` : '';
+		const question = this.content.question ? `**Question:**\n${this.content.question}\n\n` : '';
+		const newFile = await app.vault.create(
+			path,
+			`${sourceLine}${question}${this.content.formatPrefix}${this.received}${this.content.formatSuffix}\n`
+		);
+
+		const link = app.fileManager.generateMarkdownLink(newFile, sourcePath);
+		if (this.isTargetShown()) {
+			this.editor.replaceRange(
+				`\n\n${link}\n`,
+				{ line: this.to.line, ch: this.editor.getLine(this.to.line).length }
+			);
+		} else {
+			// 別のノートに切り替わった場合は元のノートの末尾にリンクを追加する
+			await app.vault.process(this.file!, (data) => `${data.trimEnd()}\n\n${link}\n`);
+		}
+	}
+}
+
+// クリップボードにコピーして通知
+async function copyToClipboard(text: string) {
+	try {
+		await navigator.clipboard.writeText(text);
+		new Notice('コピーしました');
+	} catch (error) {
+		new Notice(`コピーに失敗しました: ${error.message}`);
+	}
+}
+
+// 対話型チャットのメッセージ
+interface ChatMessage {
+	role: 'user' | 'assistant';
+	content: string;
+	images?: ImageAttachment[]; // 貼り付け・ドロップした画像（ユーザーメッセージのみ）
+	toolCalls?: ToolCallLog[]; // 回答までに実行したツール（アシスタントメッセージのみ）
+}
+
+// 会話ツリーのノード（編集・再生成したメッセージは兄弟として残し、切り替えられる）
+interface ChatNode {
+	message: ChatMessage | null; // ルートはnull
+	parent: ChatNode | null;
+	children: ChatNode[];
+	selected: number; // 表示中の子のインデックス（子が無い場合は-1）
+}
+
+// チャットを表示する側（モーダル / サイドパネル）の振る舞い
+interface ChatSessionHost {
+	// 挿入先のエディタとノート（挿入できない場合はnull）
+	getInsertTarget(): { editor: Editor; file: TFile | null } | null;
+	// 挿入が完了した後の処理
+	onInserted(): void;
+}
+
+// 対話型チャットのUIと会話状態（モーダルとサイドパネルで共用）
+class ChatSession {
+	plugin: ChatGPTPlugin;
+	host: ChatSessionHost;
+	selectedText: string;
+	insertLabel: string;
+
+	// 会話履歴（API送信用、システムプロンプト + 選択テキスト含む）
+	messages: ApiMessage[] = [];
+	// 表示用会話履歴（会話ツリーで選択中のブランチ、ユーザーとアシスタントのやり取りのみ）
+	displayMessages: ChatMessage[] = [];
+	root: ChatNode = { message: null, parent: null, children: [], selected: -1 };
+
+	// 会話ノートとしての保存先と集計
+	sourcePath: string;
+	chatFile: TFile | null = null;
+	createdAt: string = new Date().toISOString();
+	chatUsage = { promptTokens: 0, completionTokens: 0, estimatedCost: 0 };
+
+	// 送信するコンテキスト（選択テキスト + 有効なソース）
+	contextSources: ContextSources;
+	contextText: string;
+	contextImages: ImageAttachment[] = []; // コンテキストに埋め込まれた画像（最初の質問に添付）
+	contextReady: Promise<void>;
+
+	// 次の質問に添付する画像（貼り付け・ドロップ）
+	pendingImages: ImageAttachment[] = [];
+	attachmentsEl: HTMLElement;
+
+	// UI要素
+	contextTextEl: HTMLElement;
+	contextTokensEl: HTMLElement;
+	conversationEl: HTMLElement;
+	inputEl: HTMLTextAreaElement;
+	costEstimateEl: HTMLElement;
+	buttonContainer: HTMLElement;
+	sendBtn: HTMLButtonElement;
+	insertBtn: HTMLButtonElement;
+	stopBtn: HTMLButtonElement;
+	isLoading: boolean = false;
+	autoScroll: boolean = true; // スマート自動スクロール制御
+
+	// ストリーミング受信中の状態
+	abortController: AbortController | null = null;
+	streamingText: string | null = null; // 受信中の部分テキスト（受信していない時はnull）
+	streamingEl: HTMLElement | null = null;
+	toolLogEl: HTMLElement | null = null; // 実行中のツール呼び出しの表示
+
+	// 描画済みのメッセージ（変わったところから後ろだけ描画し直す）
+	messageListEl: HTMLElement;
+	renderedMessages: Array<{ message: ChatMessage; el: HTMLElement }> = [];
+	renderComponent = new Component(); // Markdown描画の子要素のライフサイクル管理
+
+	constructor(plugin: ChatGPTPlugin, host: ChatSessionHost, selectedText: string, sourcePath: string, insertLabel: string) {
+		this.plugin = plugin;
+		this.host = host;
+		this.selectedText = selectedText;
+		this.sourcePath = sourcePath;
+		this.insertLabel = insertLabel;
+		this.contextSources = { ...plugin.settings.contextSources };
+		this.contextText = selectedText;
+
+		// 初期メッセージ（システムプロンプト + 選択テキストコンテキスト）
+		this.messages.push({
+			role: 'system',
+			content: this.plugin.settings.systemPrompt,
+		});
+		this.messages.push({
+			role: 'system',
+			content: `Selected context from the document:\n\n${selectedText}`,
+		});
+
+		this.contextReady = this.refreshContext();
+	}
+
+	// 保存した会話ノートの内容を復元（render()の前に呼ぶ）
+	restore(chat: SavedChat, file: TFile) {
+		this.chatFile = file;
+		this.createdAt = chat.createdAt;
+		if (chat.sourcePath) {
+			this.sourcePath = chat.sourcePath;
+		}
+		this.chatUsage = {
+			promptTokens: chat.promptTokens,
+			completionTokens: chat.completionTokens,
+			estimatedCost: chat.estimatedCost,
+		};
+
+		let node = this.root;
+		chat.messages.forEach((msg) => {
+			node = this.addChild(node, { ...msg });
+		});
+		this.syncMessages();
+	}
+
+	// 選択中のブランチ（ルートから末端まで）
+	getPath(): ChatNode[] {
+		const path: ChatNode[] = [];
+		let node = this.root;
+		while (node.selected >= 0 && node.children[node.selected]) {
+			node = node.children[node.selected];
+			path.push(node);
+		}
+		return path;
+	}
+
+	getLeaf(): ChatNode {
+		const path = this.getPath();
+		return path.length > 0 ? path[path.length - 1] : this.root;
+	}
+
+	findNode(message: ChatMessage): ChatNode | undefined {
+		return this.getPath().find((node) => node.message === message);
+	}
+
+	// 子を追加して選択する（syncMessagesは呼び出し側で行う）
+	addChild(parent: ChatNode, message: ChatMessage): ChatNode {
+		const node: ChatNode = { message, parent, children: [], selected: -1 };
+		parent.children.push(node);
+		parent.selected = parent.children.length - 1;
+		return node;
+	}
+
+	// 選択中のブランチから表示用・API送信用の会話履歴を作り直す
+	// コンテキストの画像は最初の質問に添付する
+	syncMessages() {
+		this.displayMessages = this.getPath().map((node) => node.message!);
+		this.messages.splice(
+			2,
+			this.messages.length - 2,
+			...this.displayMessages.map((msg, index) => {
+				const images = [...(index === 0 ? this.contextImages : []), ...(msg.images || [])];
+				return images.length > 0
+					? { role: msg.role, content: msg.content, images }
+					: { role: msg.role, content: msg.content };
+			})
+		);
+	}
+
+	// 選択テキストのコンテキストを差し替える（サイドパネルで新しい選択に追従）
+	setContext(selectedText: string, sourcePath: string) {
+		this.selectedText = selectedText;
+		this.sourcePath = sourcePath;
+		this.contextReady = this.refreshContext();
+	}
+
+	// 有効なソースからコンテキストを組み立て直し、送信内容とプレビューを更新
+	async refreshContext() {
+		try {
+			this.contextText = await this.plugin.contextBuilder.build(
+				this.selectedText,
+				this.sourcePath,
+				this.contextSources,
+				this.plugin.settings.contextTokenBudget
+			);
+		} catch (error) {
+			console.error('ChatGPT Error:', error);
+			this.contextText = this.selectedText;
+		}
+
+		try {
+			this.contextImages = this.plugin.settings.sendImages
+				? await this.plugin.contextBuilder.resolveImages(this.contextText, this.sourcePath)
+				: [];
+		} catch (error) {
+			console.error('ChatGPT Error:', error);
+			this.contextImages = [];
+		}
+
+		this.messages[1].content = `Selected context from the document:\n\n${this.contextText}`;
+		this.syncMessages();
+
+		if (this.contextTextEl) {
+			this.renderContextPreview();
+		}
+	}
+
+	// 会話ノートとして自動保存
+	async saveChat() {
+		if (!this.plugin.settings.autoSaveChats || this.displayMessages.length === 0) return;
+
+		try {
+			this.chatFile = await this.plugin.chatHistory.save({
+				model: this.plugin.settings.model,
+				provider: this.plugin.getActiveProvider().name,
+				sourcePath: this.sourcePath,
+				selectedText: this.selectedText,
+				createdAt: this.createdAt,
+				updatedAt: new Date().toISOString(),
+				promptTokens: this.chatUsage.promptTokens,
+				completionTokens: this.chatUsage.completionTokens,
+				estimatedCost: this.chatUsage.estimatedCost,
+				messages: this.displayMessages,
+			}, this.chatFile);
+		} catch (error) {
+			new Notice(`会話の保存に失敗しました: ${error.message}`);
+			console.error('ChatGPT Error:', error);
+		}
+	}
+
+	render(containerEl: HTMLElement) {
+		// 選択テキストプレビュー（折りたたみ可能）
+		const contextSection = containerEl.createDiv('chatgpt-context-section');
+		const contextHeader = contextSection.createDiv('chatgpt-context-header');
+		contextHeader.createEl('strong', { text: '📄 Selected Context' });
+		this.contextTokensEl = contextHeader.createSpan('chatgpt-context-tokens');
+		const toggleIcon = contextHeader.createSpan('chatgpt-toggle-icon');
+		toggleIcon.textContent = '▼';
+
+		const contextContent = contextSection.createDiv('chatgpt-context-content');
+		contextContent.style.display = 'block';
+
+		// コンテキストのソース切り替え
+		const sourcesEl = contextContent.createDiv('chatgpt-context-sources');
+		(Object.keys(CONTEXT_SOURCE_LABELS) as Array<keyof ContextSources>).forEach((key) => {
+			const labelEl = sourcesEl.createEl('label', { cls: 'chatgpt-context-source' });
+			const checkbox = labelEl.createEl('input', { type: 'checkbox' });
+			checkbox.checked = this.contextSources[key];
+			labelEl.appendText(CONTEXT_SOURCE_LABELS[key]);
+			checkbox.addEventListener('change', () => {
+				this.contextSources[key] = checkbox.checked;
+				this.contextReady = this.refreshContext();
+			});
+		});
+
+		// 送信される内容をそのまま表示
+		this.contextTextEl = contextContent.createEl('div', { cls: 'chatgpt-context-text' });
+		this.renderContextPreview();
+
+		// 折りたたみ動作
+		contextHeader.addEventListener('click', () => {
+			if (contextContent.style.display === 'none') {
+				contextContent.style.display = 'block';
+				toggleIcon.textContent = '▼';
+			} else {
+				contextContent.style.display = 'none';
+				toggleIcon.textContent = '▶';
+			}
+		});
+
+		// 入力エリア（会話履歴の上に配置）
+		const inputSection = containerEl.createDiv('chatgpt-input-section');
+
+		this.inputEl = inputSection.createEl('textarea', {
+			placeholder: '💬 ここに質問を入力してください...',
+			cls: 'chatgpt-input',
+		});
+		this.inputEl.setAttribute('inputmode', 'text');
+		this.inputEl.setAttribute('autocomplete', 'off');
+		this.inputEl.setAttribute('autocorrect', 'off');
+		this.inputEl.setAttribute('spellcheck', 'false');
+
+		// Enter キーで送信（Shift+Enter で改行）
+		this.inputEl.addEventListener('keydown', (e) => {
+			if (e.key === 'Enter' && !e.shiftKey) {
+				e.preventDefault();
+				this.handleSend();
+			}
+		});
+
+		// 画像の添付（貼り付け・ドロップ）
+		this.attachmentsEl = inputSection.createDiv('chatgpt-attachments');
+		this.renderAttachments();
+		this.inputEl.addEventListener('paste', (e) => {
+			const files = Array.from(e.clipboardData?.files || []);
+			if (files.some((file) => file.type.startsWith('image/'))) {
+				e.preventDefault();
+				this.addImageFiles(files);
+			}
+		});
+		[this.inputEl, this.attachmentsEl].forEach((el) => {
+			el.addEventListener('dragover', (e) => {
+				if (e.dataTransfer?.types.includes('Files')) {
+					e.preventDefault();
+					this.attachmentsEl.addClass('is-dragover');
+				}
+			});
+			el.addEventListener('dragleave', () => this.attachmentsEl.removeClass('is-dragover'));
+			el.addEventListener('drop', (e) => {
+				this.attachmentsEl.removeClass('is-dragover');
+				const files = Array.from(e.dataTransfer?.files || []);
+				if (files.length > 0) {
+					e.preventDefault();
+					this.addImageFiles(files);
+				}
+			});
+		});
+
+		// 送信前のコスト見積もり
+		this.costEstimateEl = inputSection.createDiv('chatgpt-cost-estimate');
+		this.inputEl.addEventListener('input', () => this.renderCostEstimate());
+		this.renderCostEstimate();
+
+		// ボタンエリア
+		this.buttonContainer = inputSection.createDiv('chatgpt-button-container');
+
+		this.sendBtn = this.buttonContainer.createEl('button', { text: '送信', cls: 'chatgpt-send-btn' });
+		this.sendBtn.addEventListener('click', () => this.handleSend());
+
+		// 停止・キャンセルボタン（リクエスト中のみ表示）
+		this.stopBtn = this.buttonContainer.createEl('button', { text: '⏹ 停止', cls: 'chatgpt-stop-btn' });
+		this.stopBtn.style.display = 'none';
+		this.stopBtn.addEventListener('click', () => this.handleStop());
+
+		// 挿入先の選択（設定に記憶）
+		new DropdownComponent(this.buttonContainer)
+			.addOptions(INSERTION_MODE_LABELS)
+			.setValue(this.plugin.settings.chatInsertionMode)
+			.onChange(async (value) => {
+				this.plugin.settings.chatInsertionMode = value as InsertionMode;
+				await this.plugin.saveSettings();
+			})
+			.selectEl.addClass('chatgpt-insert-mode');
+
+		this.insertBtn = this.buttonContainer.createEl('button', { text: this.insertLabel, cls: 'chatgpt-insert-btn' });
+		this.insertBtn.addEventListener('click', () => this.handleInsert());
+
+		// デバッグモード時のみ表示
+		if (this.plugin.settings.debugMode) {
+			const debugBtn = this.buttonContainer.createEl('button', { text: '🐛 リクエスト記録', cls: 'chatgpt-cancel-btn' });
+			debugBtn.addEventListener('click', () => {
+				new TraceViewModal(this.plugin.app, this.plugin).open();
+			});
+		}
+
+		// 会話履歴表示エリア（入力エリアの下に配置）
+		this.conversationEl = containerEl.createDiv('chatgpt-conversation');
+		this.messageListEl = this.conversationEl.createDiv('chatgpt-message-list');
+		this.renderComponent.load();
+
+		// 回答内の内部リンク（[[link]]）を開く
+		this.conversationEl.addEventListener('click', (e) => {
+			const linkEl = (e.target as HTMLElement).closest('a.internal-link');
+			if (!linkEl) return;
+			e.preventDefault();
+			const href = linkEl.getAttribute('data-href') || linkEl.getAttribute('href') || '';
+			this.plugin.app.workspace.openLinkText(href, this.sourcePath, Keymap.isModEvent(e as MouseEvent));
+		});
+
+		// スマート自動スクロール：ユーザーが最下部付近にいる場合のみ自動スクロール
+		this.conversationEl.addEventListener('scroll', () => {
+			const threshold = 100; // 最下部から100px以内なら「最下部」と判定
+			const isNearBottom =
+				this.conversationEl.scrollHeight - this.conversationEl.scrollTop - this.conversationEl.clientHeight < threshold;
+			this.autoScroll = isNearBottom;
+		});
+
+		// 再開した会話を表示
+		if (this.displayMessages.length > 0) {
+			this.renderConversation();
+		}
+	}
+
+	// 貼り付け・ドロップされたファイルのうち、対応する形式の画像を添付する
+	async addImageFiles(files: File[]) {
+		for (const file of files) {
+			const extension = file.name.split('.').pop()?.toLowerCase() || '';
+			const mimeType = IMAGE_MIME_TYPES[extension] || (Object.values(IMAGE_MIME_TYPES).includes(file.type) ? file.type : '');
+			if (!mimeType) {
+				new Notice(`${file.name} は対応していない形式です`);
+				continue;
+			}
+			if (file.size > MAX_IMAGE_BYTES) {
+				new Notice(`${file.name} は大きすぎるため添付できません`);
+				continue;
+			}
+			if (this.pendingImages.length >= MAX_IMAGES_PER_REQUEST) {
+				new Notice(`画像は${MAX_IMAGES_PER_REQUEST}枚まで添付できます`);
+				break;
+			}
+			this.pendingImages.push(await readImageAttachment(file.name || 'pasted-image', mimeType, await file.arrayBuffer()));
+		}
+		if (!modelSupportsVision(this.plugin.settings.model) && this.pendingImages.length > 0) {
+			new Notice(`${this.plugin.settings.model} は画像入力に対応していないため、画像は送信されません`);
+		}
+		this.renderAttachments();
+	}
+
+	// 添付予定の画像のサムネイル（×で外せる）
+	renderAttachments() {
+		if (!this.attachmentsEl) return;
+		this.attachmentsEl.empty();
+		if (this.pendingImages.length === 0) {
+			this.attachmentsEl.createSpan({ cls: 'chatgpt-attachments-placeholder', text: '画像をここにドロップ・貼り付け' });
+		}
+		this.pendingImages.forEach((image, index) => {
+			const thumbEl = this.attachmentsEl.createDiv('chatgpt-attachment');
+			thumbEl.createEl('img', { attr: { src: toDataUrl(image), alt: image.name, title: image.name } });
+			const removeBtn = thumbEl.createEl('button', { cls: 'chatgpt-attachment-remove', text: '×', attr: { 'aria-label': '添付を外す' } });
+			removeBtn.addEventListener('click', () => {
+				this.pendingImages.splice(index, 1);
+				this.renderAttachments();
+			});
+		});
+		this.renderCostEstimate();
+	}
+
+	renderContextPreview() {
+		this.contextTokensEl.textContent = this.contextText
+			? `≈ ${estimateTokens(this.contextText).toLocaleString()} tokens`
+			: '';
+		if (this.contextImages.length > 0) {
+			this.contextTokensEl.textContent += ` + 🖼️ ${this.contextImages.length}`;
+		}
+
+		this.renderCostEstimate();
+
+		if (!this.contextText) {
+			this.contextTextEl.textContent = 'ノートのテキストを選択するとコンテキストとして送信されます';
+			return;
+		}
+		this.contextTextEl.textContent = this.contextText;
+	}
+
+	// 会話履歴・コンテキスト・入力中の質問から送信時のコストを見積もる
+	renderCostEstimate() {
+		if (!this.costEstimateEl) return;
+
+		const text = [...this.messages.map((msg) => msg.content), this.inputEl.value].join('\n');
+		const images = [...this.messages.flatMap((msg) => msg.images || []), ...this.pendingImages];
+		if (this.displayMessages.length === 0) images.push(...this.contextImages);
+		const imageTokens = modelSupportsVision(this.plugin.settings.model)
+			? images.reduce((sum, image) => sum + estimateImageTokens(image), 0)
+			: 0;
+		const estimate = this.plugin.estimateRequestCost(text, this.plugin.settings.model, imageTokens);
+		this.costEstimateEl.textContent = this.plugin.getModelPricing(this.plugin.settings.model)
+			? `送信予定: ≈ ${estimate.tokens.toLocaleString()} トークン / 約 $${estimate.min.toFixed(4)}〜$${estimate.max.toFixed(4)}`
+			: `送信予定: ≈ ${estimate.tokens.toLocaleString()} トークン（${this.plugin.settings.model} の料金が未登録です）`;
+
+		// 予算の残りを超えそうな場合は警告表示
+		const { daily, monthly } = this.plugin.getSpending();
+		const { dailyBudget, monthlyBudget } = this.plugin.settings;
+		const overBudget =
+			(dailyBudget > 0 && daily + estimate.max > dailyBudget) ||
+			(monthlyBudget > 0 && monthly + estimate.max > monthlyBudget);
+		if (overBudget) {
+			this.costEstimateEl.textContent += '（予算の上限を超える可能性があります）';
+		}
+		this.costEstimateEl.toggleClass('is-over-budget', overBudget);
+	}
+
+	async handleSend() {
+		const userInput = this.inputEl.value.trim();
+		if ((!userInput && this.pendingImages.length === 0) || this.isLoading) return;
+
+		// コンテキストの組み立てが終わるのを待つ
+		await this.contextReady;
+
+		if (!this.plugin.hasApiKey()) {
+			new Notice(`Please set your ${this.plugin.getActiveProvider().name} API key in settings`);
+			return;
+		}
+
+		// ユーザーメッセージを追加
+		const parent = this.getLeaf();
+		const previous = parent.selected;
+		const images = this.pendingImages;
+		this.addChild(parent, images.length > 0
+			? { role: 'user', content: userInput, images }
+			: { role: 'user', content: userInput });
+		this.syncMessages();
+
+		// 入力欄と添付画像をクリア
+		this.inputEl.value = '';
+		this.pendingImages = [];
+		this.renderAttachments();
+
+		if (!(await this.requestReply())) {
+			// 回答を受け取れなかった場合はユーザーメッセージを削除して再入力できるように戻す
+			parent.children.pop();
+			parent.selected = previous;
+			this.syncMessages();
+			this.renderConversation();
+			this.inputEl.value = userInput;
+			this.pendingImages = images;
+			this.renderAttachments();
+		}
+		this.inputEl.focus();
+	}
+
+	// 選択中のブランチの末尾（ユーザーメッセージ）への回答をリクエストし、子として追加する
+	// overridesでモデル・Temperatureを変更できる（再生成用）
+	async requestReply(overrides: ChatCallOptions = {}): Promise<boolean> {
+		// UI更新
+		this.renderConversation();
+		this.setLoading(true);
+
+		const controller = new AbortController();
+		this.abortController = controller;
+		let replied = false;
+
+		// vaultのツール（Responses APIのみ）。ツールの呼び出しと結果はこの回答の間だけ送り、会話には記録として残す
+		const useTools = this.plugin.settings.chatTools && this.plugin.getActiveProvider().apiFlavour === 'responses';
+		const toolMessages: ApiMessage[] = [];
+		const toolLog: ToolCallLog[] = [];
+
+		try {
+			let response = '';
+			for (let step = 0; ; step++) {
+				let calls: ToolCall[] = [];
+				let outputItems: any[] = [];
+
+				// ChatGPT APIを呼び出し（受信した部分テキストを逐次表示）
+				response = await this.plugin.callOpenAIWithHistory([...this.messages, ...toolMessages], {
+					...overrides,
+					onDelta: (delta) => this.appendStreamingText(delta),
+					signal: controller.signal,
+					source: 'Chat',
+					notePath: this.sourcePath,
+					onUsage: (record) => {
+						this.chatUsage.promptTokens += record.promptTokens;
+						this.chatUsage.completionTokens += record.completionTokens;
+						this.chatUsage.estimatedCost += record.estimatedCost;
+					},
+					...(useTools ? {
+						tools: VAULT_TOOL_DEFINITIONS,
+						toolChoice: step < MAX_TOOL_STEPS ? 'auto' : 'none',
+						onToolCalls: (received: ToolCall[], items: any[]) => {
+							calls = received;
+							outputItems = items;
+						},
+					} : {}),
+				});
+				if (calls.length === 0 || controller.signal.aborted) break;
+
+				// ツールの前に受信したテキストは最終的な回答ではないので消す
+				this.streamingText = null;
+				this.streamingEl = null;
+				this.renderConversation();
+
+				toolMessages.push({ role: 'assistant', content: '', items: outputItems });
+				for (const call of calls) {
+					const output = await this.runToolCall(call, toolLog, controller.signal);
+					toolMessages.push({
+						role: 'user',
+						content: '',
+						items: [{ type: 'function_call_output', call_id: call.id, output }],
+					});
+				}
+			}
+
+			if (!response && toolLog.length === 0) {
+				// 何も受信しないまま停止した
+				new Notice('停止しました');
+			} else {
+				// アシスタントメッセージを追加（停止時は受信済みの部分まで）
+				const message: ChatMessage = { role: 'assistant', content: response || '（停止しました）' };
+				if (toolLog.length > 0) message.toolCalls = toolLog;
+				this.addChild(this.getLeaf(), message);
+				this.syncMessages();
+				replied = true;
+
+				await this.saveChat();
+			}
+		} catch (error) {
+			new Notice(`Error: ${error.message}`);
+			console.error('ChatGPT Error:', error);
+		} finally {
+			this.abortController = null;
+			this.streamingText = null;
+			this.streamingEl = null;
+			this.toolLogEl?.remove();
+			this.toolLogEl = null;
+
+			// UI更新
+			this.renderConversation();
+			this.renderCostEstimate();
+			this.setLoading(false);
+		}
+
+		return replied;
+	}
+
+	// ツールを1件実行し、モデルに返す結果を返す（書き込むツールは承認されてから実行する）
+	// エラーや拒否も結果としてモデルに返し、回答を続けさせる
+	async runToolCall(call: ToolCall, log: ToolCallLog[], signal: AbortSignal): Promise<string> {
+		const entry: ToolCallLog = { name: call.name, args: summarizeToolArgs(call.arguments), status: 'running', result: '' };
+		log.push(entry);
+		this.renderToolLog(log);
+		this.plugin.debugLogger.info('tools', '🔧 Tool call', { name: call.name, args: entry.args });
+
+		try {
+			const args = JSON.parse(call.arguments || '{}');
+			const { vaultTools } = this.plugin;
+			if (WRITE_TOOLS.has(call.name)) {
+				const change = await vaultTools.describeChange(call.name, args, this.sourcePath);
+				if (!(await this.requestApproval(change, signal))) {
+					entry.status = 'rejected';
+					entry.result = 'ユーザーが拒否';
+					return 'The user rejected this change. Do not try it again unless they ask.';
+				}
+				entry.result = await vaultTools.applyChange(change);
+				entry.status = 'ok';
+				return entry.result;
+			}
+
+			const { output, summary } = await vaultTools.run(call.name, args, this.sourcePath);
+			entry.status = 'ok';
+			entry.result = summary;
+			return output;
+		} catch (error) {
+			entry.status = 'error';
+			entry.result = error.message;
+			return `Error: ${error.message}`;
+		} finally {
+			this.renderToolLog(log);
+		}
+	}
+
+	// 実行中のツール呼び出しを会話の末尾に表示
+	renderToolLog(log: ToolCallLog[]) {
+		if (!this.toolLogEl) {
+			this.toolLogEl = this.conversationEl.createDiv('chatgpt-tool-log');
+		}
+		this.toolLogEl.empty();
+		log.forEach((entry) => this.renderToolCall(this.toolLogEl!, entry));
+		if (this.autoScroll) {
+			this.conversationEl.scrollTop = this.conversationEl.scrollHeight;
+		}
+	}
+
+	renderToolCall(containerEl: HTMLElement, entry: ToolCallLog) {
+		const entryEl = containerEl.createDiv(`chatgpt-tool-call is-${entry.status}`);
+		entryEl.createSpan({ text: TOOL_STATUS_ICONS[entry.status] });
+		entryEl.createEl('code', { text: entry.name });
+		if (entry.args) entryEl.createSpan({ cls: 'chatgpt-tool-call-args', text: entry.args });
+		if (entry.result) entryEl.createSpan({ cls: 'chatgpt-tool-call-result', text: `→ ${entry.result}` });
+	}
+
+	// 変更内容をそのまま表示して承認を求める（停止した場合は拒否扱い）
+	requestApproval(change: ToolChange, signal: AbortSignal): Promise<boolean> {
+		return new Promise((resolve) => {
+			if (signal.aborted) {
+				resolve(false);
+				return;
+			}
+
+			const cardEl = this.conversationEl.createDiv('chatgpt-tool-approval');
+			cardEl.createDiv({ cls: 'chatgpt-tool-approval-title', text: `${change.title}: ${change.path}` });
+			const previewEl = cardEl.createEl('pre', { cls: 'chatgpt-tool-approval-preview' });
+			if (change.context) {
+				previewEl.createSpan({ cls: 'chatgpt-tool-approval-context', text: `${change.context}\n` });
+			}
+			previewEl.createEl('ins', { text: change.content });
+
+			const finish = (approved: boolean) => {
+				signal.removeEventListener('abort', onAbort);
+				cardEl.remove();
+				resolve(approved);
+			};
+			const onAbort = () => finish(false);
+			signal.addEventListener('abort', onAbort);
+
+			const buttons = cardEl.createDiv('chatgpt-tool-approval-buttons');
+			buttons.createEl('button', { text: '拒否' })
+				.addEventListener('click', () => finish(false));
+			buttons.createEl('button', { text: '承認して実行', cls: 'mod-cta' })
+				.addEventListener('click', () => finish(true));
+
+			cardEl.scrollIntoView({ block: 'nearest' });
+		});
+	}
+
+	// 最後の回答を再生成（前の回答は兄弟のブランチとして残す）
+	async regenerate(overrides: ChatCallOptions = {}) {
+		const leaf = this.getLeaf();
+		if (this.isLoading || leaf.message?.role !== 'assistant') return;
+
+		const parent = leaf.parent!;
+		const previous = parent.selected;
+		parent.selected = -1;
+		this.syncMessages();
+
+		if (!(await this.requestReply(overrides))) {
+			parent.selected = previous;
+			this.syncMessages();
+			this.renderConversation();
+		}
+	}
+
+	// ユーザーメッセージを編集して、その時点から送り直す（元のメッセージは兄弟のブランチとして残す）
+	async editAndResend(node: ChatNode, content: string) {
+		if (this.isLoading) return;
+
+		const parent = node.parent!;
+		const previous = parent.selected;
+		this.addChild(parent, { ...node.message!, content });
+		this.syncMessages();
+
+		if (!(await this.requestReply())) {
+			parent.children.pop();
+			parent.selected = previous;
+			this.syncMessages();
+			this.renderConversation();
+		}
+	}
+
+	// やり取り（ユーザーメッセージとその回答）を削除し、続きの会話を前につなげる
+	deleteTurn(node: ChatNode) {
+		if (this.isLoading) return;
+
+		const parent = node.parent!;
+		const index = parent.children.indexOf(node);
+		const reply = node.children[node.selected];
+		const continuation = reply ? reply.children : [];
+
+		continuation.forEach((child) => {
+			child.parent = parent;
+		});
+		parent.children.splice(index, 1, ...continuation);
+		parent.selected = continuation.length > 0
+			? index + reply!.selected
+			: Math.min(index, parent.children.length - 1);
+
+		this.syncMessages();
+		this.renderConversation();
+		this.renderCostEstimate();
+		this.saveChat();
+	}
+
+	// 兄弟のブランチに切り替える
+	selectSibling(node: ChatNode, step: number) {
+		if (this.isLoading) return;
+
+		const parent = node.parent!;
+		const index = parent.children.indexOf(node) + step;
+		if (index < 0 || index >= parent.children.length) return;
+
+		parent.selected = index;
+		this.syncMessages();
+		this.renderConversation();
+		this.renderCostEstimate();
+	}
+
+	// 再生成のメニュー（同じ設定 / モデルを変更 / Temperatureを変更）
+	showRegenerateMenu(evt: MouseEvent) {
+		const menu = new Menu();
+		menu.addItem((item) =>
+			item
+				.setTitle('再生成')
+				.setIcon('refresh-cw')
+				.onClick(() => this.regenerate())
+		);
+
+		menu.addSeparator();
+		this.plugin.getActiveProvider().models.forEach((model) => {
+			menu.addItem((item) =>
+				item
+					.setTitle(`モデルを変えて再生成: ${MODEL_LABELS[model] || model}`)
+					.onClick(() => this.regenerate({ model }))
+			);
+		});
+
+		menu.addSeparator();
+		[0, 0.7, 1.0, 1.5].forEach((temperature) => {
+			menu.addItem((item) =>
+				item
+					.setTitle(`Temperatureを変えて再生成: ${temperature}`)
+					.onClick(() => this.regenerate({ temperature }))
+			);
+		});
+
+		menu.showAtMouseEvent(evt);
+	}
+
+	// メッセージをその場で編集する
+	startEdit(node: ChatNode, contentEl: HTMLElement) {
+		if (this.isLoading) return;
+
+		contentEl.empty();
+		const textarea = contentEl.createEl('textarea', { cls: 'chatgpt-edit-input' });
+		textarea.value = node.message!.content;
+
+		const buttons = contentEl.createDiv('chatgpt-edit-buttons');
+		const sendBtn = buttons.createEl('button', { text: '送信', cls: 'mod-cta' });
+		const cancelBtn = buttons.createEl('button', { text: 'キャンセル' });
+
+		sendBtn.addEventListener('click', () => {
+			const content = textarea.value.trim();
+			if (content && content !== node.message!.content) {
+				this.editAndResend(node, content);
+			} else {
+				this.renderConversation(this.displayMessages.indexOf(node.message!));
+			}
+		});
+		cancelBtn.addEventListener('click', () => {
+			this.renderConversation(this.displayMessages.indexOf(node.message!));
+		});
+
+		textarea.focus();
+	}
+
+	// ストリーミングで受信した部分テキストを表示に反映
+	appendStreamingText(delta: string) {
+		this.streamingText = (this.streamingText || '') + delta;
+
+		if (this.streamingEl) {
+			this.streamingEl.textContent = this.streamingText;
+			// スマート自動スクロール：ユーザーが最下部付近にいる場合のみ自動スクロール
+			if (this.autoScroll) {
+				this.conversationEl.scrollTop = this.conversationEl.scrollHeight;
+			}
+		} else {
+			this.renderConversation();
+		}
+	}
+
+	// 受信中のリクエストを停止（受信済みのテキストは残す）
+	handleStop() {
+		if (this.abortController) {
+			this.abortController.abort();
+		}
+	}
+
+	// 表示済みのメッセージはそのまま残し、変わったところから後ろだけ描画する
+	// redrawFromを指定した場合はその位置から描画し直す
+	renderConversation(redrawFrom: number = Infinity) {
+		let kept = 0;
+		while (
+			kept < redrawFrom &&
+			kept < this.renderedMessages.length &&
+			kept < this.displayMessages.length &&
+			this.renderedMessages[kept].message === this.displayMessages[kept]
+		) {
+			kept++;
+		}
+		this.renderedMessages.splice(kept).forEach(({ el }) => el.remove());
+
+		this.messageListEl.querySelector('.chatgpt-empty-message')?.remove();
+		if (this.displayMessages.length === 0) {
+			const emptyMsg = this.messageListEl.createDiv('chatgpt-empty-message');
+			emptyMsg.textContent = '質問を入力して会話を始めましょう';
+		}
+
+		this.displayMessages.slice(kept).forEach((msg) => {
+			this.renderedMessages.push({ message: msg, el: this.renderMessage(msg) });
+		});
+
+		// 受信中の回答（ストリーミング中はテキストのまま表示し、完了後にMarkdownで描画）
+		if (this.streamingText) {
+			if (!this.streamingEl) {
+				this.conversationEl.querySelector('.chatgpt-message-loading')?.remove();
+				const messageEl = this.conversationEl.createDiv('chatgpt-message chatgpt-message-assistant chatgpt-message-streaming');
+
+				const iconEl = messageEl.createSpan('chatgpt-message-icon');
+				iconEl.textContent = '🤖';
+
+				this.streamingEl = messageEl.createDiv('chatgpt-message-content');
+			}
+			this.streamingEl.textContent = this.streamingText;
+		} else {
+			this.conversationEl.querySelector('.chatgpt-message-streaming')?.remove();
+		}
+
+		// スマート自動スクロール：ユーザーが最下部付近にいる場合のみ自動スクロール
+		if (this.autoScroll) {
+			this.conversationEl.scrollTop = this.conversationEl.scrollHeight;
+		}
+	}
+
+	// メッセージを1件描画（回答はObsidianのMarkdownとして描画）
+	renderMessage(msg: ChatMessage): HTMLElement {
+		const messageEl = this.messageListEl.createDiv(`chatgpt-message chatgpt-message-${msg.role}`);
+
+		const iconEl = messageEl.createSpan('chatgpt-message-icon');
+		iconEl.textContent = msg.role === 'user' ? '💬' : '🤖';
+
+		const bodyEl = messageEl.createDiv('chatgpt-message-body');
+
+		// 回答までに実行したツール（折りたたみ）
+		if (msg.toolCalls?.length) {
+			const detailsEl = bodyEl.createEl('details', { cls: 'chatgpt-tool-log' });
+			detailsEl.createEl('summary', { text: `🔧 ツール呼び出し（${msg.toolCalls.length}件）` });
+			msg.toolCalls.forEach((entry) => this.renderToolCall(detailsEl, entry));
+		}
+
+		const contentEl = bodyEl.createDiv('chatgpt-message-content');
+		if (msg.role === 'assistant') {
+			contentEl.addClass('chatgpt-message-markdown', 'markdown-rendered');
+			MarkdownRenderer.render(this.plugin.app, msg.content, contentEl, this.sourcePath, this.renderComponent)
+				.then(() => this.addCodeCopyButtons(contentEl));
+		} else {
+			contentEl.textContent = msg.content;
+			if (msg.images?.length) {
+				const imagesEl = bodyEl.createDiv('chatgpt-message-images');
+				msg.images.forEach((image) => {
+					imagesEl.createEl('img', { attr: { src: toDataUrl(image), alt: image.name, title: image.name } });
+				});
+			}
+		}
+
+		// 操作ボタン
+		const actionsEl = bodyEl.createDiv('chatgpt-message-actions');
+		const addAction = (icon: string, label: string, onClick: (evt: MouseEvent) => void, cls: string = '') => {
+			const button = actionsEl.createEl('button', { cls: `clickable-icon ${cls}`, attr: { 'aria-label': label } });
+			setIcon(button, icon);
+			button.addEventListener('click', onClick);
+		};
+
+		const node = this.findNode(msg);
+		const siblings = node ? node.parent!.children : [];
+		if (node && siblings.length > 1) {
+			// 兄弟のブランチの切り替え
+			const index = siblings.indexOf(node);
+			addAction('chevron-left', '前のブランチ', () => this.selectSibling(node, -1));
+			actionsEl.createSpan({ cls: 'chatgpt-branch-counter', text: `${index + 1}/${siblings.length}` });
+			addAction('chevron-right', '次のブランチ', () => this.selectSibling(node, 1));
+		}
+
+		addAction('copy', 'コピー', () => copyToClipboard(msg.content));
+		if (node && msg.role === 'user') {
+			addAction('pencil', '編集して送り直す', () => this.startEdit(node, contentEl));
+			addAction('trash', 'このやり取りを削除', () => this.deleteTurn(node));
+		} else if (node) {
+			// 最後の回答のみ表示（CSSで制御）
+			addAction('refresh-cw', '再生成', (evt) => this.showRegenerateMenu(evt), 'chatgpt-regenerate-btn');
+		}
+
+		return messageEl;
+	}
+
+	// コードブロックごとのコピーボタン（Obsidianのボタンが付いていない場合のみ）
+	addCodeCopyButtons(contentEl: HTMLElement) {
+		contentEl.querySelectorAll('pre').forEach((preEl) => {
+			if (preEl.querySelector('.copy-code-button')) return;
+			const code = preEl.querySelector('code')?.textContent ?? preEl.textContent ?? '';
+			const button = preEl.createEl('button', { text: 'コピー', cls: 'copy-code-button' });
+			button.addEventListener('click', () => copyToClipboard(code));
+		});
+	}
+
+	setLoading(loading: boolean) {
+		this.isLoading = loading;
+		this.sendBtn.disabled = loading;
+		this.insertBtn.disabled = loading;
+		this.inputEl.disabled = loading;
+		// 受信中は停止（ストリーミング）、それ以外はリクエストのキャンセル
+		this.stopBtn.style.display = loading ? '' : 'none';
+		this.stopBtn.textContent = this.plugin.settings.streamResponses ? '⏹ 停止' : '✕ キャンセル';
+
+		if (loading) {
+			this.sendBtn.textContent = '送信中...';
+			// ローディングインジケータを表示
+			const loadingMsg = this.conversationEl.createDiv('chatgpt-message chatgpt-message-loading');
+			loadingMsg.innerHTML = '<span class="chatgpt-message-icon">🤖</span><div class="chatgpt-message-content">考え中...</div>';
+			// スマート自動スクロール：ユーザーが最下部付近にいる場合のみ自動スクロール
+			if (this.autoScroll) {
+				this.conversationEl.scrollTop = this.conversationEl.scrollHeight;
+			}
+		} else {
+			this.sendBtn.textContent = '送信';
+			// ローディングインジケータを削除
+			const loadingMsg = this.conversationEl.querySelector('.chatgpt-message-loading');
+			if (loadingMsg) loadingMsg.remove();
+		}
+	}
+
+	async handleInsert() {
+		if (this.displayMessages.length === 0) {
+			new Notice('会話履歴がありません');
+			return;
+		}
+
+		const target = this.host.getInsertTarget();
+		if (!target) {
+			new Notice('挿入先のノートを開いてください');
+			return;
+		}
+
+		const mode = this.plugin.settings.chatInsertionMode;
+		let text: string;
+
+		if (mode === 'replace') {
+			// 選択範囲は最後の回答で置き換える
+			const lastAnswer = [...this.displayMessages].reverse().find((msg) => msg.role === 'assistant');
+			if (!lastAnswer) {
+				new Notice('回答がありません');
+				return;
+			}
+			text = lastAnswer.content;
+		} else {
+			// 会話履歴を整形してMarkdownに変換
+			text = `---\n\n**Selected Context:**\n${this.selectedText}\n\n**ChatGPT Conversation:**\n\n`;
+
+			// 回答ごとの脚注番号（どれも1から始まる）を通し番号にする
+			let footnoteOffset = 0;
+			this.displayMessages.forEach((msg, index) => {
+				const questionNum = Math.floor(index / 2) + 1;
+				if (msg.role === 'user') {
+					text += `**Q${questionNum}:** ${msg.content}\n\n`;
+				} else {
+					const content = renumberFootnotes(msg.content, footnoteOffset);
+					footnoteOffset = Math.max(footnoteOffset, maxFootnoteNumber(content));
+					text += `**A${questionNum}:** ${content}\n\n`;
+				}
+			});
+			text = text.trimEnd();
+		}
+
+		// 選択した挿入先に書き込む
+		const inserter = new ResponseInserter(this.plugin, target.editor, mode, target.file, {
+			title: 'ChatGPT Conversation',
+			question: '',
+			formatPrefix: '',
+			formatSuffix: '',
+		});
+		await inserter.finish(text);
+
+		new Notice('会話履歴を挿入しました！');
+
+		this.host.onInserted();
+	}
+
+	// 受信中のリクエストがあれば停止
+	destroy() {
+		this.handleStop();
+		this.renderComponent.unload();
+	}
+}
+
+// 対話型ChatGPTモーダル（モバイル、およびサイドパネルを使わない設定の場合）
+class InteractiveChatModal extends Modal implements ChatSessionHost {
+	plugin: ChatGPTPlugin;
+	editor: Editor;
+	file: TFile | null;
+	session: ChatSession;
+	readingModeInfo?: {
+		view: MarkdownView;
+		state: any;
+		wasInReadingMode: boolean;
+	};
+
+	constructor(
+		app: App,
+		plugin: ChatGPTPlugin,
+		selectedText: string,
+		editor: Editor,
+		readingModeInfo?: { view: MarkdownView; state: any; wasInReadingMode: boolean }
+	) {
+		super(app);
+		this.plugin = plugin;
+		this.editor = editor;
+		this.file = app.workspace.getActiveFile();
+		this.readingModeInfo = readingModeInfo;
+		this.session = new ChatSession(
+			plugin,
+			this,
+			selectedText,
+			this.file?.path || '',
+			'挿入して閉じる'
+		);
+	}
+
+	// 保存した会話ノートの内容を復元（open()の前に呼ぶ）
+	restore(chat: SavedChat, file: TFile) {
+		this.session.restore(chat, file);
+	}
+
+	getInsertTarget(): { editor: Editor; file: TFile | null } | null {
+		return { editor: this.editor, file: this.file };
+	}
+
+	onInserted() {
+		// モーダルを閉じる
+		this.close();
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		// モーダル専用クラスを追加
+		this.modalEl.addClass('chatgpt-interactive-modal');
+
+		// タイトル
+		contentEl.createEl('h2', { text: '💬 ChatGPT Interactive Chat' });
+
+		this.session.render(contentEl);
+
+		const cancelBtn = this.session.buttonContainer.createEl('button', { text: 'キャンセル', cls: 'chatgpt-cancel-btn' });
+		cancelBtn.addEventListener('click', () => this.close());
+
+		// 初期フォーカス（iPhone対応強化）
+		setTimeout(() => {
+			const inputEl = this.session.inputEl;
+			inputEl.focus();
+			// iOSでカーソルを表示させるためにクリックイベントを発火
+			inputEl.click();
+			// 強制的にフォーカスを維持
+			inputEl.setSelectionRange(0, 0);
+		}, 150);
+	}
+
+	async onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		// 受信中のリクエストがあれば停止
+		this.session.destroy();
+
+		// リーディングモードに戻す
+		if (this.readingModeInfo && this.readingModeInfo.wasInReadingMode) {
+			await new Promise(resolve => setTimeout(resolve, 100));
+			await this.readingModeInfo.view.setState(
+				{ ...this.readingModeInfo.state, mode: 'preview' },
+				{ history: false }
+			);
+		}
+	}
+}
+
+// 右サイドバーのチャットパネル（デスクトップ用）
+// 最後にフォーカスしたノートの選択テキストに追従し、挿入もそのノートに行う
+const CHAT_VIEW_TYPE = 'chatgpt-chat-view';
+
+class ChatSidebarView extends ItemView implements ChatSessionHost {
+	plugin: ChatGPTPlugin;
+	session: ChatSession;
+
+	constructor(leaf: WorkspaceLeaf, plugin: ChatGPTPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType(): string {
+		return CHAT_VIEW_TYPE;
+	}
+
+	getDisplayText(): string {
+		return 'ChatGPT Chat';
+	}
+
+	getIcon(): string {
+		return 'message-square';
+	}
+
+	async onOpen() {
+		const markdownView = this.plugin.lastMarkdownView;
+		this.startSession(
+			markdownView ? markdownView.editor.getSelection() : '',
+			markdownView?.file?.path || ''
+		);
+
+		// 最後にフォーカスしたノートで新しいテキストが選択されたらコンテキストを更新
+		this.registerDomEvent(document, 'selectionchange', () => {
+			const view = this.plugin.lastMarkdownView;
+			if (!view || this.session.isLoading) return;
+
+			const selectedText = view.editor.getSelection();
+			if (selectedText && selectedText.trim() && selectedText !== this.session.selectedText) {
+				this.session.setContext(selectedText, view.file?.path || '');
+			}
+		});
+	}
+
+	async onClose() {
+		this.session.destroy();
+	}
+
+	// 新しい会話を開始（保存した会話を渡した場合はその続きから）
+	startSession(selectedText: string, sourcePath: string, chat?: SavedChat, file?: TFile) {
+		if (this.session) {
+			this.session.destroy();
+		}
+
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass('chatgpt-chat-view');
+
+		this.session = new ChatSession(this.plugin, this, selectedText, sourcePath, '挿入');
+		if (chat && file) {
+			this.session.restore(chat, file);
+		}
+		this.session.render(contentEl);
+
+		const newChatBtn = this.session.buttonContainer.createEl('button', { text: '新しい会話', cls: 'chatgpt-cancel-btn' });
+		newChatBtn.addEventListener('click', () => {
+			this.startSession(this.session.selectedText, this.session.sourcePath);
+		});
+	}
+
+	focusInput() {
+		setTimeout(() => this.session.inputEl.focus(), 50);
+	}
+
+	getInsertTarget(): { editor: Editor; file: TFile | null } | null {
+		// 閉じられたノートには挿入しない
+		const view = this.plugin.lastMarkdownView;
+		return view && view.file ? { editor: view.editor, file: view.file } : null;
+	}
+
+	onInserted() {
+		// パネルは開いたまま会話を続けられる
+	}
+}
+
+const USAGE_VIEW_TYPE = 'chatgpt-usage-view';
+
+// 集計表の1行分
+interface UsageTotals {
+	requests: number;
+	totalTokens: number;
+	estimatedCost: number;
+}
+
+// 使用量の履歴（月別・日別）と、モデル・コマンド・ノート別の内訳を表示する
+class UsageView extends ItemView {
+	plugin: ChatGPTPlugin;
+	selectedMonth: string = moment().format('YYYY-MM');
+
+	constructor(leaf: WorkspaceLeaf, plugin: ChatGPTPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType(): string {
+		return USAGE_VIEW_TYPE;
+	}
+
+	getDisplayText(): string {
+		return 'ChatGPT Usage';
+	}
+
+	getIcon(): string {
+		return 'bar-chart-2';
+	}
+
+	async onOpen() {
+		this.render();
+	}
+
+	render() {
+		const { contentEl } = this;
+		const { usageHistory, usageMonthly } = this.plugin.settings;
+		contentEl.empty();
+		contentEl.addClass('chatgpt-usage-view');
+
+		contentEl.createEl('h2', { text: '📊 ChatGPT 利用状況' });
+
+		// エクスポート
+		const toolbar = contentEl.createDiv('chatgpt-usage-toolbar');
+		(['csv', 'json'] as const).forEach((format) => {
+			const button = toolbar.createEl('button', { text: `${format.toUpperCase()}で書き出し` });
+			button.addEventListener('click', async () => {
+				try {
+					const file = await this.plugin.exportUsage(format);
+					new Notice(`${file.path} に書き出しました`);
+				} catch (error) {
+					new Notice(`書き出しに失敗しました: ${error.message}`);
+				}
+			});
+		});
+
+		// 月別（集計済みの月も含む）
+		const byMonth: { [month: string]: UsageTotals } = {};
+		usageMonthly.forEach((a) => {
+			addUsage(byMonth, a.month, a.requests, a.totalTokens, a.estimatedCost);
+		});
+		usageHistory.forEach((r) => {
+			addUsage(byMonth, moment(r.date).format('YYYY-MM'), 1, r.totalTokens, r.estimatedCost);
+		});
+		const months = Object.keys(byMonth).sort().reverse();
+		if (!months.includes(this.selectedMonth)) {
+			months.unshift(this.selectedMonth);
+		}
+
+		contentEl.createEl('h3', { text: '月別' });
+		this.renderTable(contentEl, '月', byMonth, months);
+
+		// 選択した月の詳細
+		const monthHeader = contentEl.createDiv('chatgpt-usage-month');
+		monthHeader.createEl('h3', { text: '月の詳細' });
+		new DropdownComponent(monthHeader)
+			.addOptions(Object.fromEntries(months.map((month) => [month, month])))
+			.setValue(this.selectedMonth)
+			.onChange((value) => {
+				this.selectedMonth = value;
+				this.render();
+			});
+
+		const records = usageHistory.filter((r) => moment(r.date).format('YYYY-MM') === this.selectedMonth);
+		const aggregates = usageMonthly.filter((a) => a.month === this.selectedMonth);
+
+		// 集計済みの月は日別・ノート別の内訳が残っていない
+		if (aggregates.length > 0) {
+			contentEl.createDiv({
+				cls: 'chatgpt-usage-note',
+				text: 'この月は月ごとの集計にまとめられているため、日別・ノート別の内訳はありません',
+			});
+		}
+
+		const byDay: { [day: string]: UsageTotals } = {};
+		const byModel: { [model: string]: UsageTotals } = {};
+		const bySource: { [source: string]: UsageTotals } = {};
+		const byNote: { [path: string]: UsageTotals } = {};
+
+		aggregates.forEach((a) => {
+			addUsage(byModel, a.model, a.requests, a.totalTokens, a.estimatedCost);
+			addUsage(bySource, a.source || '(不明)', a.requests, a.totalTokens, a.estimatedCost);
+		});
+		records.forEach((r) => {
+			addUsage(byDay, moment(r.date).format('YYYY-MM-DD'), 1, r.totalTokens, r.estimatedCost);
+			addUsage(byModel, r.model, 1, r.totalTokens, r.estimatedCost);
+			addUsage(bySource, r.source || '(不明)', 1, r.totalTokens, r.estimatedCost);
+			if (r.notePath) addUsage(byNote, r.notePath, 1, r.totalTokens, r.estimatedCost);
+		});
+
+		const byCost = (totals: { [key: string]: UsageTotals }) =>
+			Object.keys(totals).sort((a, b) => totals[b].estimatedCost - totals[a].estimatedCost);
+
+		if (records.length > 0) {
+			contentEl.createEl('h4', { text: '日別' });
+			this.renderTable(contentEl, '日付', byDay, Object.keys(byDay).sort());
+		}
+
+		contentEl.createEl('h4', { text: 'モデル別' });
+		this.renderTable(contentEl, 'モデル', byModel, byCost(byModel));
+
+		contentEl.createEl('h4', { text: 'コマンド・テンプレート別' });
+		this.renderTable(contentEl, 'コマンド', bySource, byCost(bySource));
+
+		if (Object.keys(byNote).length > 0) {
+			contentEl.createEl('h4', { text: 'ノート別' });
+			this.renderTable(contentEl, 'ノート', byNote, byCost(byNote).slice(0, 20), (cell, path) => {
+				const link = cell.createEl('a', { text: path, cls: 'internal-link' });
+				link.addEventListener('click', (e) => {
+					e.preventDefault();
+					this.app.workspace.openLinkText(path, '', false);
+				});
+			});
+		}
+	}
+
+	// 集計表（コストに比例したバーを付ける）
+	renderTable(
+		containerEl: HTMLElement,
+		label: string,
+		totals: { [key: string]: UsageTotals },
+		keys: string[],
+		renderKey?: (cell: HTMLElement, key: string) => void
+	) {
+		if (keys.length === 0) {
+			containerEl.createDiv({ cls: 'chatgpt-usage-note', text: 'データがありません' });
+			return;
+		}
+
+		const maxCost = Math.max(...keys.map((key) => totals[key]?.estimatedCost || 0));
+		const table = containerEl.createEl('table', { cls: 'chatgpt-usage-table' });
+		const headerRow = table.createEl('tr');
+		[label, 'リクエスト', 'トークン', 'コスト', ''].forEach((text) => headerRow.createEl('th', { text }));
+
+		keys.forEach((key) => {
+			const stats = totals[key] || { requests: 0, totalTokens: 0, estimatedCost: 0 };
+			const row = table.createEl('tr');
+			const keyCell = row.createEl('td');
+			if (renderKey) {
+				renderKey(keyCell, key);
+			} else {
+				keyCell.textContent = key;
+			}
+			row.createEl('td', { text: String(stats.requests) });
+			row.createEl('td', { text: stats.totalTokens.toLocaleString() });
+			row.createEl('td', { text: `$${stats.estimatedCost.toFixed(4)}` });
+			const bar = row.createEl('td', { cls: 'chatgpt-usage-bar-cell' }).createDiv('chatgpt-usage-bar');
+			bar.style.width = `${maxCost > 0 ? (stats.estimatedCost / maxCost) * 100 : 0}%`;
+		});
+	}
+}
+
+function addUsage(totals: { [key: string]: UsageTotals }, key: string, requests: number, tokens: number, cost: number) {
+	const stats = totals[key] || (totals[key] = { requests: 0, totalTokens: 0, estimatedCost: 0 });
+	stats.requests += requests;
+	stats.totalTokens += tokens;
+	stats.estimatedCost += cost;
+}
+
+// 保存した会話ノートの内容
+interface SavedChat {
+	model: string;
+	provider: string;
+	sourcePath: string; // 元ノートのパス
+	selectedText: string;
+	createdAt: string; // ISO date string
+	updatedAt: string; // ISO date string
+	promptTokens: number;
+	completionTokens: number;
+	estimatedCost: number; // USD
+	messages: ChatMessage[];
+}
+
+// 対話型チャットを会話ノートとして保存・読み込みする
+// 本文はHTMLコメントの区切り（<!-- chatgpt:user --> 等）で発言ごとに分割して保存する
+class ChatHistoryStore {
+	private plugin: ChatGPTPlugin;
+
+	constructor(plugin: ChatGPTPlugin) {
+		this.plugin = plugin;
+	}
+
+	// 会話ノートとして保存（既存のノートがあれば上書き）
+	async save(chat: SavedChat, file: TFile | null): Promise<TFile> {
+		const vault = this.plugin.app.vault;
+
+		if (file && vault.getAbstractFileByPath(file.path) instanceof TFile) {
+			await vault.modify(file, this.serialize(chat, file.path));
+			return file;
+		}
+
+		const folder = normalizePath(this.plugin.settings.chatFolder || '/');
+		if (folder !== '/' && !vault.getAbstractFileByPath(folder)) {
+			await vault.createFolder(folder);
+		}
+
+		const path = this.getAvailablePath(folder, chat);
+		return vault.create(path, this.serialize(chat, path));
+	}
+
+	// 会話ノートを読み込む（会話ノートでない場合はnull）
+	async load(file: TFile): Promise<SavedChat | null> {
+		const frontmatter = this.plugin.app.metadataCache.getFileCache(file)?.frontmatter;
+		if (!frontmatter || frontmatter['chatgpt-chat'] !== true) {
+			return null;
+		}
+
+		const content = await this.plugin.app.vault.read(file);
+		const body = content.replace(/^---\n[\s\S]*?\n---\n/, '');
+		const { selectedText, messages } = this.parseBody(body);
+
+		// sourceのリンクから元ノートのパスを解決
+		let sourcePath = '';
+		const linkMatch = String(frontmatter.source || '').match(/\[\[([^\]|#]+)/);
+		if (linkMatch) {
+			const sourceFile = this.plugin.app.metadataCache.getFirstLinkpathDest(linkMatch[1], file.path);
+			sourcePath = sourceFile ? sourceFile.path : '';
+		}
+
+		return {
+			model: frontmatter.model || this.plugin.settings.model,
+			provider: frontmatter.provider || '',
+			sourcePath,
+			selectedText,
+			createdAt: frontmatter.created || new Date(file.stat.ctime).toISOString(),
+			updatedAt: frontmatter.updated || new Date(file.stat.mtime).toISOString(),
+			promptTokens: frontmatter.prompt_tokens || 0,
+			completionTokens: frontmatter.completion_tokens || 0,
+			estimatedCost: frontmatter.estimated_cost || 0,
+			messages,
+		};
+	}
+
+	isChatNote(file: TFile): boolean {
+		const frontmatter = this.plugin.app.metadataCache.getFileCache(file)?.frontmatter;
+		return !!frontmatter && frontmatter['chatgpt-chat'] === true;
+	}
+
+	// 会話ノートの一覧（更新が新しい順）
+	listChatNotes(): TFile[] {
+		return this.plugin.app.vault
+			.getMarkdownFiles()
+			.filter((file) => this.isChatNote(file))
+			.sort((a, b) => b.stat.mtime - a.stat.mtime);
+	}
+
+	serialize(chat: SavedChat, path: string): string {
+		const sourceFile = this.plugin.app.vault.getAbstractFileByPath(chat.sourcePath);
+		const source = sourceFile instanceof TFile
+			? `[[${this.plugin.app.metadataCache.fileToLinktext(sourceFile, path, true)}]]`
+			: '';
+
+		const frontmatter = stringifyYaml({
+			'chatgpt-chat': true,
+			model: chat.model,
+			provider: chat.provider,
+			source,
+			created: chat.createdAt,
+			updated: chat.updatedAt,
+			prompt_tokens: chat.promptTokens,
+			completion_tokens: chat.completionTokens,
+			total_tokens: chat.promptTokens + chat.completionTokens,
+			estimated_cost: Number(chat.estimatedCost.toFixed(6)),
+		});
+
+		let body = `<!-- chatgpt:context -->\n### 📄 Selected Context\n\n${chat.selectedText}\n\n`;
+		chat.messages.forEach((msg) => {
+			// ツール呼び出しの記録は回答の前に折りたたみのコールアウトとして残す
+			if (msg.toolCalls?.length) {
+				const lines = msg.toolCalls.map((entry) =>
+					`> - ${TOOL_STATUS_ICONS[entry.status]} \`${entry.name}\` ${entry.args} → ${entry.result.replace(/\s+/g, ' ')}`);
+				body += `<!-- chatgpt:tools -->\n> [!info]- 🔧 Tool calls\n${lines.join('\n')}\n\n`;
+			}
+			body += msg.role === 'user'
+				? `<!-- chatgpt:user -->\n### 💬 User\n\n${msg.content}\n\n`
+				: `<!-- chatgpt:assistant -->\n### 🤖 Assistant\n\n${msg.content}\n\n`;
+		});
+
+		return `---\n${frontmatter}---\n\n${body}`;
+	}
+
+	parseBody(body: string): { selectedText: string; messages: ChatMessage[] } {
+		// split結果は [前置き, 種類, 本文, 種類, 本文, ...]
+		const parts = body.split(/^<!-- chatgpt:(context|user|assistant|tools) -->[ \t]*$/m);
+		let selectedText = '';
+		const messages: ChatMessage[] = [];
+		let toolCalls: ToolCallLog[] = []; // 次の回答に付けるツール呼び出しの記録
+
+		for (let i = 1; i < parts.length; i += 2) {
+			if (parts[i] === 'tools') {
+				toolCalls = this.parseToolLog(parts[i + 1] || '');
+				continue;
+			}
+
+			// 見出し行を取り除く
+			const text = (parts[i + 1] || '').replace(/^\s*### .*\n/, '').trim();
+			if (parts[i] === 'context') {
+				selectedText = text;
+			} else {
+				const message: ChatMessage = { role: parts[i] as 'user' | 'assistant', content: text };
+				if (parts[i] === 'assistant' && toolCalls.length > 0) {
+					message.toolCalls = toolCalls;
+				}
+				toolCalls = [];
+				messages.push(message);
+			}
+		}
+
+		return { selectedText, messages };
+	}
+
+	// コールアウトの「- ✅ `name` args → result」の行をツール呼び出しの記録に戻す
+	parseToolLog(text: string): ToolCallLog[] {
+		const statuses = Object.entries(TOOL_STATUS_ICONS) as Array<[ToolCallStatus, string]>;
+		const entries: ToolCallLog[] = [];
+		text.split('\n').forEach((line) => {
+			const match = line.match(/^> - (\S+) `([^`]+)` ?(.*?) → (.*)$/);
+			if (!match) return;
+			const status = statuses.find(([, icon]) => icon === match[1])?.[0] || 'ok';
+			entries.push({ name: match[2], args: match[3], status, result: match[4] });
+		});
+		return entries;
+	}
+
+	// 「日時 元ノート名.md」で重複しないパスを作る
+	getAvailablePath(folder: string, chat: SavedChat): string {
+		const sourceName = chat.sourcePath
+			? chat.sourcePath.split('/').pop()!.replace(/\.md$/, '')
+			: 'Chat';
+		const baseName = `${moment(chat.createdAt).format('YYYY-MM-DD HHmm')} ${sourceName}`
+			.replace(/[\\/:*?"<>|#^[\]]/g, '');
+		const prefix = folder === '/' ? '' : `${folder}/`;
+
+		let path = `${prefix}${baseName}.md`;
+		let counter = 1;
+		while (this.plugin.app.vault.getAbstractFileByPath(path)) {
+			path = `${prefix}${baseName} ${counter}.md`;
+			counter++;
+		}
+		return path;
+	}
+}
+
+// 会話ノートの選択モーダル
+class ChatNoteSuggestModal extends FuzzySuggestModal<TFile> {
+	plugin: ChatGPTPlugin;
+	onChoose: (file: TFile) => void;
+
+	constructor(app: App, plugin: ChatGPTPlugin, onChoose: (file: TFile) => void) {
+		super(app);
+		this.plugin = plugin;
+		this.onChoose = onChoose;
+		this.setPlaceholder('Select a conversation to resume...');
+	}
+
+	getItems(): TFile[] {
+		return this.plugin.chatHistory.listChatNotes();
+	}
+
+	getItemText(file: TFile): string {
+		return file.basename;
+	}
+
+	onChooseItem(file: TFile): void {
+		this.onChoose(file);
+	}
+}
+
+// ノートに埋め込まれた音声の選択モーダル
+class AudioEmbedSuggestModal extends FuzzySuggestModal<{ file: TFile; original: string }> {
+	embeds: Array<{ file: TFile; original: string }>;
+	onChoose: (embed: { file: TFile; original: string }) => void;
+
+	constructor(
+		app: App,
+		embeds: Array<{ file: TFile; original: string }>,
+		onChoose: (embed: { file: TFile; original: string }) => void
+	) {
+		super(app);
+		this.embeds = embeds;
+		this.onChoose = onChoose;
+		this.setPlaceholder('Select a recording to transcribe...');
+	}
+
+	getItems(): Array<{ file: TFile; original: string }> {
+		return this.embeds;
+	}
+
+	getItemText(embed: { file: TFile; original: string }): string {
+		return embed.file.name;
+	}
+
+	onChooseItem(embed: { file: TFile; original: string }): void {
+		this.onChoose(embed);
+	}
+}
+
+// カスタムプロンプト入力モーダル（旧バージョン、互換性のため残す）
+class CustomPromptModal extends Modal {
+	onSubmit: (prompt: string) => void;
+	title: string;
+	focusInterval: number | null = null;
+	readingModeInfo?: {
+		view: MarkdownView;
+		state: any;
+		wasInReadingMode: boolean;
+	};
+
+	constructor(
+		app: App,
+		onSubmit: (prompt: string) => void,
+		readingModeInfo?: { view: MarkdownView; state: any; wasInReadingMode: boolean },
+		title: string = 'Custom prompt for ChatGPT'
+	) {
+		super(app);
+		this.onSubmit = onSubmit;
+		this.readingModeInfo = readingModeInfo;
+		this.title = title;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		// ChatGPTモーダル専用クラスを追加（他のモーダルに影響しないように）
+		this.modalEl.addClass('chatgpt-custom-modal');
+
+		contentEl.createEl('h2', { text: this.title });
+
+		const inputEl = contentEl.createEl('textarea', {
+			placeholder: 'Enter your question or instruction...',
+		});
+		inputEl.style.width = '100%';
+		inputEl.style.minHeight = '100px';
+		inputEl.style.marginBottom = '10px';
+
+		// モバイルでのカーソル点滅を改善するための属性
+		inputEl.setAttribute('inputmode', 'text');
+		inputEl.setAttribute('autocomplete', 'off');
+		inputEl.setAttribute('autocorrect', 'off');
+		inputEl.setAttribute('spellcheck', 'false');
+
+		const buttonContainer = contentEl.createDiv();
+		buttonContainer.style.textAlign = 'right';
+
+		const submitBtn = buttonContainer.createEl('button', { text: 'Ask' });
+		submitBtn.addEventListener('click', () => {
+			const prompt = inputEl.value.trim();
+			if (prompt) {
+				this.onSubmit(prompt);
+				this.close();
+			} else {
+				new Notice('Please enter a prompt');
+			}
+		});
+
+		// フォーカスが失われた時に自動的に戻す（モバイル対応）
+		inputEl.addEventListener('blur', () => {
+			// ボタンクリック時以外はフォーカスを戻す
+			setTimeout(() => {
+				if (this.modalEl.isShown()) {
+					inputEl.focus();
+				}
+			}, 10);
+		});
+
+		// 入力欄に確実にフォーカス（モバイル対応）
+		// 複数のタイミングでフォーカスを試みることで確実に保持
+		inputEl.focus();
+
+		// レンダリング完了後に再度フォーカス
+		setTimeout(() => {
+			inputEl.focus();
+		}, 50);
+
+		// モーダルアニメーション完了後にもう一度フォーカス
+		setTimeout(() => {
+			inputEl.focus();
+		}, 150);
+
+		// カーソル点滅を維持するため、定期的にフォーカスを再適用（モバイル対応）
+		// 500ms間隔でフォーカスをチェック・維持
+		this.focusInterval = window.setInterval(() => {
+			if (document.activeElement !== inputEl && this.modalEl.isShown()) {
+				inputEl.focus();
+			}
+		}, 500);
+	}
+
+	async onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		// フォーカス維持インターバルをクリア（メモリリーク防止）
+		if (this.focusInterval !== null) {
+			window.clearInterval(this.focusInterval);
+			this.focusInterval = null;
+		}
+
+		// モーダルキャンセル時もリーディングモードに戻す
+		if (this.readingModeInfo && this.readingModeInfo.wasInReadingMode) {
+			await new Promise(resolve => setTimeout(resolve, 100));
+			await this.readingModeInfo.view.setState(
+				{ ...this.readingModeInfo.state, mode: 'preview' },
+				{ history: false }
+			);
+		}
+	}
+}
+
+// 画像生成のプロンプトとサイズ・品質の入力モーダル
+class ImageGenerationModal extends Modal {
+	plugin: ChatGPTPlugin;
+	prompt: string;
+	options: ImageGenerationOptions;
+	onSubmit: (prompt: string, options: ImageGenerationOptions) => void;
+
+	constructor(
+		app: App,
+		plugin: ChatGPTPlugin,
+		prompt: string,
+		onSubmit: (prompt: string, options: ImageGenerationOptions) => void
+	) {
+		super(app);
+		this.plugin = plugin;
+		this.prompt = prompt;
+		this.options = { size: plugin.settings.imageSize, quality: plugin.settings.imageQuality };
+		this.onSubmit = onSubmit;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+		this.modalEl.addClass('chatgpt-custom-modal');
+
+		contentEl.createEl('h2', { text: 'Generate image' });
+
+		const inputEl = contentEl.createEl('textarea', {
+			placeholder: 'Describe the image...',
+		});
+		inputEl.value = this.prompt;
+		inputEl.style.width = '100%';
+		inputEl.style.minHeight = '100px';
+		inputEl.setAttribute('inputmode', 'text');
+		inputEl.setAttribute('autocomplete', 'off');
+
+		new Setting(contentEl)
+			.setName('Size')
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOptions(IMAGE_SIZE_LABELS)
+					.setValue(this.options.size)
+					.onChange((value) => {
+						this.options.size = value;
+					})
+			);
+
+		new Setting(contentEl)
+			.setName('Quality')
+			.setDesc(`Model: ${this.plugin.settings.imageModel}`)
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOptions(IMAGE_QUALITY_LABELS)
+					.setValue(this.options.quality)
+					.onChange((value) => {
+						this.options.quality = value;
+					})
+			);
+
+		const buttonContainer = contentEl.createDiv();
+		buttonContainer.style.textAlign = 'right';
+
+		const submitBtn = buttonContainer.createEl('button', { text: 'Generate', cls: 'mod-cta' });
+		submitBtn.addEventListener('click', () => {
+			const prompt = inputEl.value.trim();
+			if (prompt) {
+				this.onSubmit(prompt, this.options);
+				this.close();
+			} else {
+				new Notice('Please enter a prompt');
+			}
+		});
+
+		inputEl.focus();
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
+
+// 構造化出力がスキーマに合わなかった場合のエラー表示（再実行できる）
+class StructuredOutputErrorModal extends Modal {
+	title: string;
+	error: StructuredOutputError;
+	onRetry: () => void;
+
+	constructor(app: App, title: string, error: StructuredOutputError, onRetry: () => void) {
+		super(app);
+		this.title = title;
+		this.error = error;
+		this.onRetry = onRetry;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.createEl('h2', { text: 'The response does not match the output schema' });
+		contentEl.createEl('p', {
+			text: `${this.title}: nothing was inserted. You can try again — the model often gets it right on a second attempt.`,
+			cls: 'setting-item-description',
+		});
+
+		const listEl = contentEl.createEl('ul', { cls: 'chatgpt-schema-errors' });
+		this.error.errors.slice(0, 20).forEach((message) => listEl.createEl('li', { text: message }));
+		if (this.error.errors.length > 20) {
+			listEl.createEl('li', { text: `...and ${this.error.errors.length - 20} more` });
+		}
+
+		const detailsEl = contentEl.createEl('details', { cls: 'chatgpt-schema-response' });
+		detailsEl.createEl('summary', { text: 'Response' });
+		detailsEl.createEl('pre', { text: this.error.raw });
+
+		const buttonContainer = contentEl.createDiv('chatgpt-diff-buttons');
+		buttonContainer.createEl('button', { text: 'Copy response' })
+			.addEventListener('click', async () => {
+				await navigator.clipboard.writeText(this.error.raw);
+				new Notice('Copied to clipboard');
+			});
+		buttonContainer.createEl('button', { text: 'Cancel' })
+			.addEventListener('click', () => this.close());
+		buttonContainer.createEl('button', { text: 'Retry', cls: 'mod-cta' })
+			.addEventListener('click', () => {
+				this.close();
+				this.onRetry();
+			});
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
+
+// Frontmatterに加える変更のプレビュー（項目ごとに反映するか選べる）
+class MetadataPreviewModal extends Modal {
+	file: TFile;
+	changes: MetadataChange[];
+	onApply: (keys: Set<string>) => void;
+
+	constructor(app: App, file: TFile, changes: MetadataChange[], onApply: (keys: Set<string>) => void) {
+		super(app);
+		this.file = file;
+		this.changes = changes;
+		this.onApply = onApply;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.createEl('h2', { text: `Metadata for ${this.file.basename}` });
+		contentEl.createEl('p', {
+			text: 'Existing values are kept; new values are added. Uncheck anything you don\'t want.',
+			cls: 'setting-item-description',
+		});
+
+		const format = (value: string | string[] | undefined) =>
+			value === undefined ? '—' : Array.isArray(value) ? value.join(', ') : value;
+		const keys = new Set<string>(this.changes.map((change) => change.key));
+
+		this.changes.forEach((change) => {
+			const setting = new Setting(contentEl)
+				.setName(change.key)
+				.addToggle((toggle) =>
+					toggle
+						.setValue(true)
+						.onChange((value) => {
+							if (value) keys.add(change.key);
+							else keys.delete(change.key);
+						})
+				);
+			const descEl = setting.descEl.createDiv('chatgpt-metadata-change');
+			if (change.before !== undefined) {
+				descEl.createDiv({ cls: 'chatgpt-metadata-before', text: `Current: ${format(change.before)}` });
+			}
+			descEl.createDiv({ cls: 'chatgpt-metadata-after', text: `Proposed: ${format(change.after)}` });
+		});
+
+		const buttonContainer = contentEl.createDiv('chatgpt-diff-buttons');
+		buttonContainer.createEl('button', { text: 'Cancel' })
+			.addEventListener('click', () => this.close());
+		buttonContainer.createEl('button', { text: 'Apply', cls: 'mod-cta' })
+			.addEventListener('click', () => {
+				if (keys.size > 0) this.onApply(keys);
+				this.close();
+			});
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
+
+// APIリクエストの記録（新しい順、行を開くと伏せ字済みの本文を表示）
+class TraceViewModal extends Modal {
+	plugin: ChatGPTPlugin;
+	listEl: HTMLElement;
+
+	constructor(app: App, plugin: ChatGPTPlugin) {
+		super(app);
+		this.plugin = plugin;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+		this.modalEl.addClass('chatgpt-trace-modal');
+		contentEl.createEl('h2', { text: 'API request traces' });
+		contentEl.createEl('p', {
+			text: this.plugin.settings.redactPrompts
+				? 'API keys and prompt content are removed. Only requests since Obsidian started are listed.'
+				: 'API keys are removed. Prompt content is included — check it before sharing. Only requests since Obsidian started are listed.',
+			cls: 'setting-item-description',
+		});
+
+		this.listEl = contentEl.createDiv('chatgpt-trace-list');
+		this.render();
+		this.plugin.debugLogger.onTrace = () => this.render();
+
+		const buttonContainer = contentEl.createDiv('chatgpt-diff-buttons');
+		buttonContainer.createEl('button', { text: 'Clear' })
+			.addEventListener('click', () => this.plugin.debugLogger.clear());
+		buttonContainer.createEl('button', { text: 'Export report', cls: 'mod-cta' })
+			.addEventListener('click', async () => {
+				const file = await this.plugin.debugLogger.exportReport();
+				if (file) this.close();
+			});
+	}
+
+	render() {
+		// 開いている行は更新後も開いたままにする
+		const openIds = new Set(
+			Array.from(this.listEl.querySelectorAll('details[open]')).map((el) => (el as HTMLElement).dataset.traceId)
+		);
+		this.listEl.empty();
+		const traces = this.plugin.debugLogger.getTraces().reverse();
+		if (traces.length === 0) {
+			this.listEl.createDiv({ cls: 'chatgpt-trace-empty', text: 'No requests yet' });
+			return;
+		}
+
+		traces.forEach((trace) => {
+			const failed = !!trace.error || trace.status === 0 || trace.status >= 400;
+			const itemEl = this.listEl.createEl('details', { cls: 'chatgpt-trace-item' });
+			itemEl.dataset.traceId = String(trace.id);
+			itemEl.open = openIds.has(itemEl.dataset.traceId);
+			const summaryEl = itemEl.createEl('summary', { cls: 'chatgpt-trace-summary' });
+			summaryEl.createSpan({ cls: 'chatgpt-trace-time', text: moment(trace.time).format('HH:mm:ss') });
+			summaryEl.createSpan({
+				cls: `chatgpt-trace-status ${failed ? 'is-error' : 'is-ok'}`,
+				text: trace.status ? String(trace.status) : 'ERR',
+			});
+			summaryEl.createSpan({ cls: 'chatgpt-trace-model', text: trace.model || trace.url });
+			summaryEl.createSpan({ cls: 'chatgpt-trace-latency', text: `${trace.latency} ms` });
+			summaryEl.createSpan({
+				cls: 'chatgpt-trace-tokens',
+				text: `${trace.inputTokens ?? '-'} → ${trace.outputTokens ?? '-'}`,
+			});
+
+			const infoEl = itemEl.createDiv('chatgpt-trace-info');
+			infoEl.createDiv({ text: `${trace.provider} · ${trace.url}${trace.stream ? ' · streaming' : ''}` });
+			if (trace.requestId) infoEl.createDiv({ text: `Request ID: ${trace.requestId}` });
+			if (trace.error) infoEl.createDiv({ cls: 'chatgpt-trace-error', text: trace.error });
+
+			this.renderBody(itemEl, 'Request', trace.requestBody);
+			this.renderBody(itemEl, 'Response', trace.responseBody || '(no body)');
+		});
+	}
+
+	renderBody(containerEl: HTMLElement, label: string, body: string) {
+		const headerEl = containerEl.createDiv('chatgpt-trace-body-header');
+		headerEl.createSpan({ text: label });
+		headerEl.createEl('button', { text: 'Copy' })
+			.addEventListener('click', async () => {
+				await navigator.clipboard.writeText(body);
+				new Notice('Copied to clipboard');
+			});
+		containerEl.createEl('pre', { cls: 'chatgpt-trace-body', text: body });
+	}
+
+	onClose() {
+		this.plugin.debugLogger.onTrace = null;
+		this.contentEl.empty();
+	}
+}
+
+// 書き換えの差分を表示し、全部・変更箇所ごとに採用するモーダル
+class RewriteDiffModal extends Modal {
+	parts: DiffPart[];
+	onApply: (text: string) => void;
+	applyBtn: HTMLButtonElement;
+
+	constructor(app: App, parts: DiffPart[], onApply: (text: string) => void) {
+		super(app);
+		this.parts = parts;
+		this.onApply = onApply;
+	}
+
+	get changes(): Array<Extract<DiffPart, { type: 'change' }>> {
+		return this.parts.filter((part): part is Extract<DiffPart, { type: 'change' }> => part.type === 'change');
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+		this.modalEl.addClass('chatgpt-diff-modal');
+
+		contentEl.createEl('h2', { text: 'Review rewrite' });
+		contentEl.createEl('p', {
+			text: 'Click a change to accept or reject it.',
+			cls: 'setting-item-description',
+		});
+
+		const diffEl = contentEl.createDiv('chatgpt-diff');
+		this.parts.forEach((part) => {
+			if (part.type === 'equal') {
+				diffEl.appendText(part.text);
+				return;
+			}
+			const hunkEl = diffEl.createSpan('chatgpt-diff-hunk');
+			if (part.removed) hunkEl.createEl('del', { text: part.removed });
+			if (part.added) hunkEl.createEl('ins', { text: part.added });
+			const update = () => {
+				hunkEl.toggleClass('is-rejected', !part.accepted);
+				hunkEl.setAttr('aria-label', part.accepted ? 'Accepted (click to reject)' : 'Rejected (click to accept)');
+			};
+			update();
+			hunkEl.addEventListener('click', () => {
+				part.accepted = !part.accepted;
+				update();
+				this.updateApplyButton();
+			});
+		});
+
+		const buttonContainer = contentEl.createDiv('chatgpt-diff-buttons');
+		buttonContainer.createEl('button', { text: 'Reject all' })
+			.addEventListener('click', () => this.close());
+		this.applyBtn = buttonContainer.createEl('button');
+		this.applyBtn.addEventListener('click', () => this.apply());
+		buttonContainer.createEl('button', { text: 'Accept all', cls: 'mod-cta' })
+			.addEventListener('click', () => {
+				this.changes.forEach((change) => {
+					change.accepted = true;
+				});
+				this.apply();
+			});
+		this.updateApplyButton();
+	}
+
+	updateApplyButton() {
+		const accepted = this.changes.filter((change) => change.accepted).length;
+		this.applyBtn.setText(`Apply selected (${accepted}/${this.changes.length})`);
+		this.applyBtn.disabled = accepted === 0;
+	}
+
+	apply() {
+		this.onApply(applyDiff(this.parts));
+		this.close();
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
+
+// 一括処理の選択肢のうち、テンプレートの代わりにメタデータを付与するもの
+const METADATA_BATCH_ID = '__metadata__';
+
+// 一括処理の設定・見積もり・進捗・結果を表示するモーダル
+// 閉じても処理は続き、終わったら結果をノートに保存して通知する
+class BatchModal extends Modal {
+	plugin: ChatGPTPlugin;
+	templateId: string; // METADATA_BATCH_IDの場合はメタデータの付与
+	targetType: BatchTargetType = 'folder';
+	targetValue: string = '';
+	writeMode: BatchWriteMode = 'append';
+	frontmatterField: string = 'summary';
+	runner: BatchRunner | null = null; // 見積もり済み（または実行中）の処理
+	statusEl: HTMLElement;
+	controlsEl: HTMLElement;
+
+	constructor(app: App, plugin: ChatGPTPlugin, templateId?: string) {
+		super(app);
+		this.plugin = plugin;
+		this.templateId = templateId || plugin.settings.templates[0]?.id || METADATA_BATCH_ID;
+		// 開いているノートのフォルダを初期値にする
+		const activeFile = app.workspace.getActiveFile();
+		this.targetValue = activeFile?.parent && !activeFile.parent.isRoot() ? activeFile.parent.path : '';
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+		this.modalEl.addClass('chatgpt-batch-modal');
+		contentEl.createEl('h2', { text: 'Run template on multiple notes' });
+
+		// 条件を変えたら見積もりからやり直す
+		const invalidate = () => {
+			if (this.runner?.running) return;
+			this.runner = null;
+			this.render();
+		};
+
+		const templates: Record<string, string> = {};
+		this.plugin.settings.templates.forEach((template) => {
+			templates[template.id] = template.name;
+		});
+		templates[METADATA_BATCH_ID] = 'Enrich note metadata (summary, tags, aliases, category)';
+		new Setting(contentEl)
+			.setName('Template')
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOptions(templates)
+					.setValue(this.templateId)
+					.onChange((value) => {
+						this.templateId = value;
+						writeSetting.settingEl.toggle(!this.writesToNoteProperties());
+						fieldSetting.settingEl.toggle(!this.writesToNoteProperties() && this.writeMode === 'frontmatter');
+						invalidate();
+					})
+			);
+
+		new Setting(contentEl)
+			.setName('Notes')
+			.setDesc('Folder path, tag (with or without #), or text to search for in note paths and contents')
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOptions(BATCH_TARGET_LABELS)
+					.setValue(this.targetType)
+					.onChange((value) => {
+						this.targetType = value as BatchTargetType;
+						invalidate();
+					})
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder('Projects/2024')
+					.setValue(this.targetValue)
+					.onChange((value) => {
+						this.targetValue = value;
+						invalidate();
+					})
+			);
+
+		// メタデータの場合は書き込み先が決まっている。フィールド名はFrontmatterに書き込む場合のみ表示
+		let fieldSetting: Setting;
+		const writeSetting = new Setting(contentEl)
+			.setName('Write Results To')
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOptions(BATCH_WRITE_MODE_LABELS)
+					.setValue(this.writeMode)
+					.onChange((value) => {
+						this.writeMode = value as BatchWriteMode;
+						fieldSetting.settingEl.toggle(this.writeMode === 'frontmatter');
+						invalidate();
+					})
+			);
+
+		fieldSetting = new Setting(contentEl)
+			.setName('Frontmatter Field')
+			.addText((text) =>
+				text
+					.setValue(this.frontmatterField)
+					.onChange((value) => {
+						this.frontmatterField = value.trim();
+						invalidate();
+					})
+			);
+		writeSetting.settingEl.toggle(!this.writesToNoteProperties());
+		fieldSetting.settingEl.toggle(!this.writesToNoteProperties() && this.writeMode === 'frontmatter');
+
+		new Setting(contentEl)
+			.setName('Parallel Requests')
+			.setDesc('How many notes are processed at the same time')
+			.addSlider((slider) =>
+				slider
+					.setLimits(1, 5, 1)
+					.setValue(this.plugin.settings.batchConcurrency)
+					.setDynamicTooltip()
+					.onChange(async (value) => {
+						this.plugin.settings.batchConcurrency = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		this.statusEl = contentEl.createDiv('chatgpt-batch-status');
+		this.controlsEl = contentEl.createDiv('chatgpt-batch-controls');
+		this.render();
+	}
+
+	// 状態（未見積もり / 見積もり済み / 実行中 / 完了）に応じた表示とボタン
+	render() {
+		const { statusEl, controlsEl } = this;
+		statusEl.empty();
+		controlsEl.empty();
+		const runner = this.runner;
+
+		if (!runner) {
+			statusEl.setText('Estimate the cost to see which notes will be processed.');
+			controlsEl.createEl('button', { text: 'Estimate cost' })
+				.addEventListener('click', () => this.estimate());
+			return;
+		}
+
+		const total = runner.job.files.length;
+		if (!runner.running && runner.done === 0 && !runner.cancelled) {
+			// 見積もり済み
+			statusEl.createDiv({ text: `${total} notes will be processed with "${runner.name}".` });
+			const list = statusEl.createEl('ul', { cls: 'chatgpt-batch-files' });
+			runner.job.files.slice(0, 20).forEach((file) => list.createEl('li', { text: file.path }));
+			if (total > 20) list.createEl('li', { text: `…and ${total - 20} more` });
+
+			const startBtn = controlsEl.createEl('button', { text: `Start (${total} notes)`, cls: 'mod-cta' });
+			startBtn.disabled = total === 0;
+			startBtn.addEventListener('click', () => this.start());
+			return;
+		}
+
+		// 実行中・完了
+		const succeeded = runner.results.filter((result) => result.ok).length;
+		const failed = runner.done - succeeded;
+		const cost = runner.results.reduce((sum, result) => sum + result.cost, 0);
+		const state = runner.running ? (runner.paused ? 'Paused' : 'Running') : runner.cancelled ? 'Cancelled' : 'Finished';
+		statusEl.createDiv({ text: `${state}: ${runner.done}/${total} — ✓ ${succeeded}  ✗ ${failed} — $${cost.toFixed(4)}` });
+		const progressEl = statusEl.createEl('progress', { cls: 'chatgpt-batch-progress' });
+		progressEl.max = total;
+		progressEl.value = runner.done;
+
+		if (runner.running) {
+			controlsEl.createEl('button', { text: runner.paused ? 'Resume' : 'Pause' })
+				.addEventListener('click', () => {
+					if (runner.paused) {
+						runner.resume();
+					} else {
+						runner.pause();
+					}
+					this.render();
+				});
+			controlsEl.createEl('button', { text: 'Cancel', cls: 'mod-warning' })
+				.addEventListener('click', () => {
+					runner.cancel();
+					this.render();
+				});
+			return;
+		}
+
+		this.renderReport(statusEl, runner);
+		controlsEl.createEl('button', { text: 'Save report' })
+			.addEventListener('click', async () => {
+				const file = await runner.saveReport();
+				new Notice(`Report saved to ${file.path}`);
+			});
+		controlsEl.createEl('button', { text: 'Close', cls: 'mod-cta' })
+			.addEventListener('click', () => this.close());
+	}
+
+	// 成功・失敗したノートの一覧（クリックで開く）
+	renderReport(containerEl: HTMLElement, runner: BatchRunner) {
+		const skipped = runner.job.files.length - runner.done;
+		if (skipped > 0) {
+			containerEl.createDiv({ text: `${skipped} notes were skipped.` });
+		}
+		const list = containerEl.createEl('ul', { cls: 'chatgpt-batch-report' });
+		runner.results.forEach((result) => {
+			const item = list.createEl('li', { cls: result.ok ? 'is-success' : 'is-failure' });
+			item.appendText(result.ok ? '✓ ' : '✗ ');
+			const target = result.output || result.file;
+			const link = item.createEl('a', { text: target.path, href: '#' });
+			link.addEventListener('click', (e) => {
+				e.preventDefault();
+				this.app.workspace.getLeaf(Keymap.isModEvent(e)).openFile(target);
+			});
+			if (result.error) item.appendText(` — ${result.error}`);
+		});
+	}
+
+	// メタデータ・Frontmatter形式の構造化出力は、書き込み先の設定を使わずプロパティに書き込む
+	writesToNoteProperties(): boolean {
+		if (this.templateId === METADATA_BATCH_ID) return true;
+		const template = this.plugin.settings.templates.find((t) => t.id === this.templateId);
+		return !!template?.outputSchema?.trim() && template.outputFormat === 'frontmatter';
+	}
+
+	async estimate() {
+		const template = this.plugin.settings.templates.find((t) => t.id === this.templateId) || null;
+		if (!template && this.templateId !== METADATA_BATCH_ID) return;
+		if (!this.writesToNoteProperties() && this.writeMode === 'frontmatter' && !this.frontmatterField) {
+			new Notice('Please enter a frontmatter field');
+			return;
+		}
+
+		this.statusEl.setText('Collecting notes...');
+		const files = await BatchRunner.findFiles(this.plugin, this.targetType, this.targetValue);
+		const runner = new BatchRunner(this.plugin, {
+			template,
+			files,
+			writeMode: this.writeMode,
+			frontmatterField: this.frontmatterField,
+			concurrency: this.plugin.settings.batchConcurrency,
+		});
+		const estimate = await runner.estimate();
+		this.runner = runner;
+		this.render();
+
+		const model = template?.model || this.plugin.settings.model;
+		this.statusEl.createDiv({
+			cls: 'chatgpt-cost-estimate',
+			text: this.plugin.getModelPricing(model)
+				? `≈ ${estimate.tokens.toLocaleString()} input tokens / about $${estimate.min.toFixed(4)}–$${estimate.max.toFixed(4)} (${model})`
+				: `≈ ${estimate.tokens.toLocaleString()} input tokens (no pricing for ${model})`,
+		});
+	}
+
+	async start() {
+		const runner = this.runner;
+		if (!runner) return;
+		if (!this.plugin.hasApiKey()) {
+			new Notice(`Please set your ${this.plugin.getActiveProvider().name} API key in settings`);
+			return;
+		}
+
+		runner.job.concurrency = this.plugin.settings.batchConcurrency;
+		runner.onProgress = () => this.render();
+		const running = runner.run();
+		this.render();
+		await running;
+		this.render();
+
+		// 途中で閉じた場合は結果をノートに残して知らせる
+		if (!this.modalEl.isConnected) {
+			const file = await runner.saveReport();
+			const failed = runner.results.filter((result) => !result.ok).length;
+			new Notice(`Batch "${runner.name}" finished: ${runner.done - failed} succeeded, ${failed} failed. Report: ${file.path}`, 10000);
+		}
+	}
+
+	onClose() {
+		if (this.runner?.running) {
+			new Notice('The batch keeps running. A report note is created when it finishes.');
+		}
+		this.contentEl.empty();
+	}
+}
+
+// 設定画面
+class ChatGPTSettingTab extends PluginSettingTab {
+	plugin: ChatGPTPlugin;
+
+	constructor(app: App, plugin: ChatGPTPlugin) {
+		super(app, plugin);
+		this.plugin = plugin;
+	}
+
+	displayUsageStats(containerEl: HTMLElement): void {
+		const now = new Date();
+		const currentMonth = now.getMonth();
+		const currentYear = now.getFullYear();
+
+		// 今月のデータのみフィルタリング
+		const thisMonthRecords = this.plugin.settings.usageHistory.filter((record) => {
+			const recordDate = new Date(record.date);
+			return (
+				recordDate.getMonth() === currentMonth &&
+				recordDate.getFullYear() === currentYear
+			);
+		});
+
+		// モデル別に集計
+		const modelStats: {
+			[model: string]: {
+				tokens: number;
+				cost: number;
+				count: number;
+			};
+		} = {};
+
+		let totalCost = 0;
+		let totalTokens = 0;
+
+		thisMonthRecords.forEach((record) => {
+			if (!modelStats[record.model]) {
+				modelStats[record.model] = { tokens: 0, cost: 0, count: 0 };
+			}
+			modelStats[record.model].tokens += record.totalTokens;
+			modelStats[record.model].cost += record.estimatedCost;
+			modelStats[record.model].count += 1;
+
+			totalCost += record.estimatedCost;
+			totalTokens += record.totalTokens;
+		});
+
+		// 使用料金セクション
+		const usageSection = containerEl.createDiv('chatgpt-usage-section');
+		usageSection.createEl('h3', { text: '📊 今月の利用料金' });
+
+		const statsSummary = usageSection.createDiv('chatgpt-usage-summary');
+		statsSummary.innerHTML = `
+			<div style="background-color: var(--background-secondary); padding: 15px; border-radius: 8px; margin-bottom: 15px;">
+				<div style="font-size: 24px; font-weight: bold; color: var(--text-accent);">
+					$${totalCost.toFixed(4)}
+				</div>
+				<div style="margin-top: 5px; color: var(--text-muted); font-size: 14px;">
+					合計 ${totalTokens.toLocaleString()} トークン / ${thisMonthRecords.length} リクエスト
+				</div>
+			</div>
+		`;
+
+		// モデル別内訳
+		if (Object.keys(modelStats).length > 0) {
+			const breakdownEl = usageSection.createDiv('chatgpt-usage-breakdown');
+			breakdownEl.createEl('strong', { text: 'モデル別内訳:' });
+			breakdownEl.style.marginTop = '10px';
+
+			const table = breakdownEl.createEl('table');
+			table.style.width = '100%';
+			table.style.marginTop = '10px';
+			table.style.borderCollapse = 'collapse';
+
+			const headerRow = table.createEl('tr');
+			headerRow.innerHTML = `
+				<th style="text-align: left; padding: 8px; border-bottom: 1px solid var(--background-modifier-border);">モデル</th>
+				<th style="text-align: right; padding: 8px; border-bottom: 1px solid var(--background-modifier-border);">リクエスト</th>
+				<th style="text-align: right; padding: 8px; border-bottom: 1px solid var(--background-modifier-border);">トークン</th>
+				<th style="text-align: right; padding: 8px; border-bottom: 1px solid var(--background-modifier-border);">コスト</th>
+			`;
+
+			Object.entries(modelStats).forEach(([model, stats]) => {
+				const row = table.createEl('tr');
+				row.innerHTML = `
+					<td style="padding: 8px;">${model}</td>
+					<td style="text-align: right; padding: 8px;">${stats.count}</td>
+					<td style="text-align: right; padding: 8px;">${stats.tokens.toLocaleString()}</td>
+					<td style="text-align: right; padding: 8px;">$${stats.cost.toFixed(4)}</td>
+				`;
+			});
+		}
+
+		// 詳しい履歴と内訳
+		new Setting(usageSection)
+			.setName('利用状況の詳細')
+			.setDesc('月別・日別の履歴、モデル・コマンド・ノート別の内訳、CSV/JSONへの書き出し')
+			.addButton((button) =>
+				button
+					.setButtonText('開く')
+					.onClick(() => this.plugin.activateUsageView())
+			);
+
+		new Setting(usageSection)
+			.setName('Keep Detailed History (months)')
+			.setDesc('Older requests are compacted into monthly totals per model and command when Obsidian starts, to keep data.json small')
+			.addSlider((slider) =>
+				slider
+					.setLimits(1, 24, 1)
+					.setValue(this.plugin.settings.usageRetentionMonths)
+					.setDynamicTooltip()
+					.onChange(async (value) => {
+						this.plugin.settings.usageRetentionMonths = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		// リセットボタン
+		new Setting(usageSection)
+			.setName('利用履歴をリセット')
+			.setDesc('今月のデータを削除します（削除前にJSONで書き出します）')
+			.addButton((button) =>
+				button
+					.setButtonText('リセット')
+					.setWarning()
+					.onClick(async () => {
+						// 削除前にバックアップを書き出す
+						try {
+							const file = await this.plugin.exportUsage('json');
+							new Notice(`${file.path} にバックアップしました`);
+						} catch (error) {
+							new Notice(`バックアップに失敗したためリセットを中止しました: ${error.message}`);
+							return;
+						}
+
+						// 今月以外のデータを残す
+						this.plugin.settings.usageHistory = this.plugin.settings.usageHistory.filter(
+							(record) => {
+								const recordDate = new Date(record.date);
+								return (
+									recordDate.getMonth() !== currentMonth ||
+									recordDate.getFullYear() !== currentYear
+								);
+							}
+						);
+						await this.plugin.saveSettings();
+						new Notice('利用履歴をリセットしました');
+						this.display(); // 画面を再描画
+					})
+			);
+
+		// 予算設定
+		this.displayBudgetSettings(usageSection);
+
+		// 区切り線
+		containerEl.createEl('hr', { attr: { style: 'margin: 20px 0;' } });
+	}
+
+	displayApiKeySettings(containerEl: HTMLElement): void {
+		containerEl.createEl('h3', { text: '🔑 API Keys' });
+		containerEl.createEl('p', {
+			text: 'Named keys (e.g. personal and team) that providers can use. Keys marked "This device only" are kept in this device\'s local storage instead of the plugin\'s data.json, so they are not synced or committed with the vault — enter them once on each device.',
+			cls: 'setting-item-description',
+		});
+
+		this.plugin.settings.apiKeys.forEach((entry) => {
+			const setting = new Setting(containerEl)
+				.setClass('chatgpt-api-key-setting')
+				.addText((text) =>
+					text
+						.setPlaceholder('Name')
+						.setValue(entry.name)
+						.onChange(async (value) => {
+							entry.name = value;
+							await this.plugin.saveSettings();
+						})
+				);
+
+			// 入力中も伏せて表示する（目のボタンで一時的に表示）
+			let keyInput: HTMLInputElement;
+			setting.addText((text) => {
+				keyInput = text.inputEl;
+				keyInput.type = 'password';
+				keyInput.autocomplete = 'off';
+				text
+					.setPlaceholder('sk-...')
+					.setValue(entry.deviceOnly ? this.plugin.loadDeviceApiKey(entry.id) : entry.key)
+					.onChange(async (value) => {
+						this.plugin.setApiKey(entry, value.trim());
+						await this.plugin.saveSettings();
+					});
+			});
+			setting.addExtraButton((button) =>
+				button
+					.setIcon('eye')
+					.setTooltip('Show / hide')
+					.onClick(() => {
+						keyInput.type = keyInput.type === 'password' ? 'text' : 'password';
+					})
+			);
+
+			// このキーを使うプロバイダー（無ければ選択中のプロバイダー）で確認する
+			setting.addButton((button) =>
+				button
+					.setButtonText('Test')
+					.onClick(async () => {
+						const provider = this.plugin.settings.providers.find((p) => p.apiKeyId === entry.id)
+							|| this.plugin.getActiveProvider();
+						button.setDisabled(true);
+						try {
+							const model = await this.plugin.testApiKey(provider, keyInput.value.trim());
+							new Notice(`✅ The key works with ${provider.name} (${model})`);
+						} catch (error) {
+							new Notice(`❌ ${error.message}`);
+						} finally {
+							button.setDisabled(false);
+						}
+					})
+			);
+
+			setting.addToggle((toggle) =>
+				toggle
+					.setTooltip('This device only')
+					.setValue(entry.deviceOnly)
+					.onChange(async (value) => {
+						this.plugin.setApiKeyDeviceOnly(entry, value);
+						await this.plugin.saveSettings();
+					})
+			);
+			setting.controlEl.createSpan({ cls: 'chatgpt-api-key-device', text: 'This device only' });
+
+			setting.addExtraButton((button) =>
+				button
+					.setIcon('trash')
+					.setTooltip('Delete key')
+					.onClick(async () => {
+						this.plugin.setApiKeyDeviceOnly(entry, false);
+						this.plugin.settings.apiKeys = this.plugin.settings.apiKeys.filter((k) => k !== entry);
+						this.plugin.settings.providers.forEach((provider) => {
+							if (provider.apiKeyId === entry.id) provider.apiKeyId = '';
+						});
+						await this.plugin.saveSettings();
+						this.display();
+					})
+			);
+		});
+
+		new Setting(containerEl)
+			.setName('Add key')
+			.addButton((button) =>
+				button
+					.setButtonText('Add')
+					.onClick(async () => {
+						const entry: ApiKeyEntry = {
+							id: `key-${Date.now().toString(36)}`,
+							name: this.plugin.settings.apiKeys.length === 0 ? 'Personal' : 'New key',
+							key: '',
+							deviceOnly: false,
+						};
+						this.plugin.settings.apiKeys.push(entry);
+						// キーを使っていない選択中のプロバイダーには自動で割り当てる
+						const provider = this.plugin.getActiveProvider();
+						if (!provider.apiKeyId && provider.authScheme !== 'none') {
+							provider.apiKeyId = entry.id;
+						}
+						await this.plugin.saveSettings();
+						this.display();
+					})
+			);
+	}
+
+	displayProviderSettings(containerEl: HTMLElement): void {
+		containerEl.createEl('h3', { text: '🔌 Providers' });
+
+		this.plugin.settings.providers.forEach((provider) => {
+			const isActive = provider.id === this.plugin.settings.activeProviderId;
+			const detailsEl = containerEl.createEl('details', { cls: 'chatgpt-provider-settings' });
+			detailsEl.open = isActive;
+			detailsEl.createEl('summary', { text: isActive ? `${provider.name} (active)` : provider.name });
+
+			new Setting(detailsEl)
+				.setName('Name')
+				.addText((text) =>
+					text
+						.setValue(provider.name)
+						.onChange(async (value) => {
+							provider.name = value;
+							await this.plugin.saveSettings();
+						})
+				);
+
+			new Setting(detailsEl)
+				.setName('Endpoint')
+				.setDesc('Full URL of the API endpoint (e.g. https://api.openai.com/v1/responses)')
+				.addText((text) => {
+					text
+						.setPlaceholder('https://...')
+						.setValue(provider.endpoint)
+						.onChange(async (value) => {
+							provider.endpoint = value.trim();
+							await this.plugin.saveSettings();
+						});
+					text.inputEl.style.width = '100%';
+				});
+
+			new Setting(detailsEl)
+				.setName('API flavour')
+				.setDesc('Request/response format spoken by the endpoint')
+				.addDropdown((dropdown) =>
+					dropdown
+						.addOption('responses', 'Responses (OpenAI / Azure)')
+						.addOption('chat-completions', 'Chat Completions (OpenAI-compatible, Ollama, vLLM)')
+						.addOption('messages', 'Messages (Anthropic)')
+						.setValue(provider.apiFlavour)
+						.onChange(async (value) => {
+							provider.apiFlavour = value as ApiFlavour;
+							await this.plugin.saveSettings();
+						})
+				);
+
+			new Setting(detailsEl)
+				.setName('Auth scheme')
+				.setDesc('How the API key is sent')
+				.addDropdown((dropdown) =>
+					dropdown
+						.addOption('bearer', 'Authorization: Bearer')
+						.addOption('api-key', 'api-key header (Azure)')
+						.addOption('x-api-key', 'x-api-key header (Anthropic)')
+						.addOption('none', 'None (local server)')
+						.setValue(provider.authScheme)
+						.onChange(async (value) => {
+							provider.authScheme = value as AuthScheme;
+							await this.plugin.saveSettings();
+						})
+				);
+
+			new Setting(detailsEl)
+				.setName('API Key')
+				.setDesc('One of the keys above. Not needed when the auth scheme is "None"')
+				.addDropdown((dropdown) => {
+					dropdown.addOption('', 'None');
+					this.plugin.settings.apiKeys.forEach((entry) => dropdown.addOption(entry.id, entry.name));
+					dropdown
+						.setValue(provider.apiKeyId)
+						.onChange(async (value) => {
+							provider.apiKeyId = value;
+							await this.plugin.saveSettings();
+						});
+				});
+
+			new Setting(detailsEl)
+				.setName('Models')
+				.setDesc('One model ID per line (shown in the Model dropdown)')
+				.addTextArea((text) => {
+					text
+						.setValue(provider.models.join('\n'))
+						.onChange(async (value) => {
+							provider.models = value
+								.split('\n')
+								.map((model) => model.trim())
+								.filter((model) => model);
+							await this.plugin.saveSettings();
+						});
+					text.inputEl.rows = 4;
+				});
+
+			// 最後の1つは削除できない
+			if (this.plugin.settings.providers.length > 1) {
+				new Setting(detailsEl)
+					.addButton((button) =>
+						button
+							.setButtonText('Delete provider')
+							.setWarning()
+							.onClick(async () => {
+								this.plugin.settings.providers = this.plugin.settings.providers.filter(
+									(p) => p.id !== provider.id
+								);
+								if (isActive) {
+									this.plugin.settings.activeProviderId = this.plugin.settings.providers[0].id;
+								}
+								await this.plugin.saveSettings();
+								this.display();
+							})
+					);
+			}
+		});
+
+		// プロバイダー追加
+		let presetKey = 'openai';
+		new Setting(containerEl)
+			.setName('Add provider')
+			.setDesc('Start from a preset and adjust the endpoint, auth and models')
+			.addDropdown((dropdown) => {
+				Object.entries(PROVIDER_PRESETS).forEach(([key, preset]) => {
+					dropdown.addOption(key, preset.name);
+				});
+				dropdown.setValue(presetKey).onChange((value) => {
+					presetKey = value;
+				});
+			})
+			.addButton((button) =>
+				button
+					.setButtonText('Add')
+					.onClick(async () => {
+						const provider = createProviderConfig(presetKey);
+						// OpenAIプリセットを複数追加した場合もIDが重複しないように
+						if (this.plugin.settings.providers.some((p) => p.id === provider.id)) {
+							provider.id = `${presetKey}-${Date.now().toString(36)}`;
+						}
+						this.plugin.settings.providers.push(provider);
+						await this.plugin.saveSettings();
+						this.display();
+					})
+			);
+	}
+
+	displayPricingSettings(containerEl: HTMLElement): void {
+		containerEl.createEl('h3', { text: '💲 Model Pricing' });
+		containerEl.createEl('p', {
+			text: 'USD per 1M tokens for input, cached input and output, USD per web search call, and USD per generated image for image models that do not report tokens (DALL·E). Dated model names (e.g. gpt-4o-2024-08-06) use the longest matching entry. Models without pricing are recorded at $0 with a warning.',
+			cls: 'setting-item-description',
+		});
+
+		const { pricing } = this.plugin.settings;
+		const fields: Array<[keyof ModelPricing, string]> = [
+			['input', 'Input'],
+			['cachedInput', 'Cached'],
+			['output', 'Output'],
+			['webSearchCall', 'Search'],
+			['image', 'Image'],
+		];
+
+		Object.keys(pricing).sort().forEach((model) => {
+			const setting = new Setting(containerEl)
+				.setName(model)
+				.setClass('chatgpt-pricing-setting');
+
+			fields.forEach(([key, label]) => {
+				setting.addText((text) => {
+					text
+						.setPlaceholder(label)
+						.setValue(String(pricing[model][key]))
+						.onChange(async (value) => {
+							const num = parseFloat(value);
+							if (!isNaN(num) && num >= 0) {
+								pricing[model][key] = num;
+								await this.plugin.saveSettings();
+							}
+						});
+					text.inputEl.title = label;
+				});
+			});
+
+			setting.addExtraButton((button) =>
+				button
+					.setIcon('trash')
+					.setTooltip('Remove')
+					.onClick(async () => {
+						delete pricing[model];
+						await this.plugin.saveSettings();
+						this.display();
+					})
+			);
+		});
+
+		// モデルを追加
+		let newModel = '';
+		new Setting(containerEl)
+			.setName('Add Model')
+			.setDesc('Model ID exactly as sent to the API')
+			.addText((text) =>
+				text
+					.setPlaceholder('gpt-5.3')
+					.onChange((value) => {
+						newModel = value.trim();
+					})
+			)
+			.addButton((button) =>
+				button
+					.setButtonText('Add')
+					.onClick(async () => {
+						if (!newModel || pricing[newModel]) return;
+						pricing[newModel] = { input: 0, cachedInput: 0, output: 0, webSearchCall: 0, image: 0 };
+						await this.plugin.saveSettings();
+						this.display();
+					})
+			);
+
+		// JSONから読み込み（{"model": {"input": 1.25, "cachedInput": 0.125, "output": 10, "webSearchCall": 0.01, "image": 0}}）
+		new Setting(containerEl)
+			.setName('Import Pricing')
+			.setDesc('Merge prices from a JSON file mapping model IDs to { input, cachedInput, output, webSearchCall, image }')
+			.addButton((button) =>
+				button
+					.setButtonText('Import JSON')
+					.onClick(() => {
+						const fileInput = createEl('input', { type: 'file', attr: { accept: '.json,application/json' } });
+						fileInput.addEventListener('change', async () => {
+							const file = fileInput.files?.[0];
+							if (!file) return;
+							try {
+								const count = this.importPricing(JSON.parse(await file.text()));
+								await this.plugin.saveSettings();
+								new Notice(`Imported pricing for ${count} models`);
+								this.display();
+							} catch (error) {
+								new Notice(`Failed to import pricing: ${error.message}`);
+							}
+						});
+						fileInput.click();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName('Re-cost Past Usage')
+			.setDesc('Recalculate the estimated cost of all recorded requests with the prices above')
+			.addButton((button) =>
+				button
+					.setButtonText('Re-cost')
+					.onClick(async () => {
+						const changed = this.plugin.recostUsageHistory();
+						await this.plugin.saveSettings();
+						new Notice(`Updated the cost of ${changed} usage records`);
+						this.display();
+					})
+			)
+			.addButton((button) =>
+				button
+					.setButtonText('Reset to Defaults')
+					.setWarning()
+					.onClick(async () => {
+						this.plugin.settings.pricing = Object.fromEntries(
+							Object.entries(DEFAULT_PRICING).map(([model, price]) => [model, { ...price }])
+						);
+						await this.plugin.saveSettings();
+						this.display();
+					})
+			);
+	}
+
+	// 料金表のJSONを検証して取り込む（不正な値があれば何も変更しない）
+	importPricing(data: any): number {
+		if (!data || typeof data !== 'object' || Array.isArray(data)) {
+			throw new Error('Expected an object of model IDs');
+		}
+
+		const imported: { [model: string]: ModelPricing } = {};
+		Object.entries(data).forEach(([model, value]: [string, any]) => {
+			const price: ModelPricing = { input: 0, cachedInput: 0, output: 0, webSearchCall: 0, image: 0 };
+			(Object.keys(price) as Array<keyof ModelPricing>).forEach((key) => {
+				const num = value?.[key];
+				if (num === undefined && key !== 'input' && key !== 'output') {
+					// 省略時はキャッシュ料金＝入力料金、Web検索と画像は0
+					price[key] = key === 'cachedInput' ? Number(value?.input) : 0;
+					return;
+				}
+				if (typeof num !== 'number' || num < 0) {
+					throw new Error(`Invalid "${key}" for ${model}`);
+				}
+				price[key] = num;
+			});
+			imported[model] = price;
+		});
+
+		Object.assign(this.plugin.settings.pricing, imported);
+		return Object.keys(imported).length;
+	}
+
+	displayTemplateSettings(containerEl: HTMLElement): void {
+		containerEl.createEl('h3', { text: '📝 Prompt Templates' });
+		containerEl.createEl('p', {
+			text: 'Each template becomes its own command and appears in the editor menu. Placeholders: {selection}, {title}, {frontmatter.xyz}, {date}, {clipboard}.',
+			cls: 'setting-item-description',
+		});
+
+		// テンプレートを保存してコマンドを登録し直す
+		const saveTemplates = async () => {
+			await this.plugin.saveSettings();
+			this.plugin.registerTemplateCommands();
+		};
+
+		this.plugin.settings.templates.forEach((template, index) => {
+			const detailsEl = containerEl.createEl('details', { cls: 'chatgpt-template-settings' });
+			detailsEl.createEl('summary', { text: template.name || '(untitled)' });
+
+			new Setting(detailsEl)
+				.setName('Name')
+				.setDesc('Shown as "Template: <name>" in the command palette')
+				.addText((text) =>
+					text
+						.setValue(template.name)
+						.onChange(async (value) => {
+							template.name = value;
+							await saveTemplates();
+						})
+				);
+
+			new Setting(detailsEl)
+				.setName('System Prompt')
+				.setDesc('Leave empty to use the default system prompt')
+				.addTextArea((text) => {
+					text
+						.setValue(template.systemPrompt)
+						.onChange(async (value) => {
+							template.systemPrompt = value;
+							await saveTemplates();
+						});
+					text.inputEl.rows = 2;
+					text.inputEl.style.width = '100%';
+				});
+
+			new Setting(detailsEl)
+				.setName('User Prompt')
+				.setDesc('Text sent to the model. Templates without {selection} also work without a selection.')
+				.addTextArea((text) => {
+					text
+						.setPlaceholder('Summarize the following text:\n\n{selection}')
+						.setValue(template.userPrompt)
+						.onChange(async (value) => {
+							template.userPrompt = value;
+							await saveTemplates();
+						});
+					text.inputEl.rows = 4;
+					text.inputEl.style.width = '100%';
+				});
+
+			new Setting(detailsEl)
+				.setName('Model override')
+				.setDesc('Model ID to use for this template. Leave empty for the default model.')
+				.addText((text) =>
+					text
+						.setPlaceholder(this.plugin.settings.model)
+						.setValue(template.model)
+						.onChange(async (value) => {
+							template.model = value.trim();
+							await saveTemplates();
+						})
+				);
+
+			new Setting(detailsEl)
+				.setName('Temperature override')
+				.setDesc('0-2. Leave empty for the default temperature.')
+				.addText((text) =>
+					text
+						.setPlaceholder(String(this.plugin.settings.temperature))
+						.setValue(template.temperature === null ? '' : String(template.temperature))
+						.onChange(async (value) => {
+							const num = parseFloat(value);
+							if (value.trim() === '') {
+								template.temperature = null;
+							} else if (!isNaN(num) && num >= 0 && num <= 2) {
+								template.temperature = num;
+							} else {
+								return;
+							}
+							await saveTemplates();
+						})
+				);
+
+			new Setting(detailsEl)
+				.setName('Insert position')
+				.addDropdown((dropdown) =>
+					dropdown
+						.addOption('', 'Default (Ask ChatGPT setting)')
+						.addOptions(INSERTION_MODE_LABELS)
+						.setValue(template.insertionMode || '')
+						.onChange(async (value) => {
+							if (value) {
+								template.insertionMode = value as InsertionMode;
+							} else {
+								delete template.insertionMode;
+							}
+							await saveTemplates();
+						})
+				);
+
+			// 構造化出力（入力中のスキーマの問題は説明欄に表示する）
+			const schemaDesc = 'JSON Schema the response must follow (the root must be an object). Leave empty for a free-text response.';
+			const schemaSetting = new Setting(detailsEl)
+				.setName('Output schema')
+				.setDesc(schemaDesc);
+			const showSchemaStatus = () => {
+				let status = schemaDesc;
+				if (template.outputSchema?.trim()) {
+					try {
+						status = isStrictJsonSchema(parseOutputSchema(template))
+							? '✅ Valid schema (strict mode)'
+							: '✅ Valid schema. Not strict-mode compatible, so the response is only checked after it arrives.';
+					} catch (error) {
+						status = `⚠️ ${error.message}`;
+					}
+				}
+				schemaSetting.setDesc(status);
+			};
+			schemaSetting.addTextArea((text) => {
+				text
+					.setPlaceholder('{\n  "type": "object",\n  "properties": { ... }\n}')
+					.setValue(template.outputSchema || '')
+					.onChange(async (value) => {
+						if (value.trim()) {
+							template.outputSchema = value;
+						} else {
+							delete template.outputSchema;
+						}
+						showSchemaStatus();
+						await saveTemplates();
+					});
+				text.inputEl.rows = 6;
+				text.inputEl.style.width = '100%';
+				text.inputEl.addClass('chatgpt-schema-input');
+			});
+			showSchemaStatus();
+
+			new Setting(detailsEl)
+				.setName('Output format')
+				.setDesc('How a structured response is written to the note. Frontmatter properties are set on the note instead of being inserted.')
+				.addDropdown((dropdown) =>
+					dropdown
+						.addOptions(STRUCTURED_OUTPUT_FORMAT_LABELS)
+						.setValue(template.outputFormat || 'json')
+						.onChange(async (value) => {
+							template.outputFormat = value as StructuredOutputFormat;
+							await saveTemplates();
+						})
+				);
+
+			new Setting(detailsEl)
+				.addButton((button) =>
+					button
+						.setButtonText('Delete template')
+						.setWarning()
+						.onClick(async () => {
+							this.plugin.settings.templates.splice(index, 1);
+							await saveTemplates();
+							this.display();
+						})
+				);
+		});
+
+		new Setting(containerEl)
+			.setName('Add template')
+			.addButton((button) =>
+				button
+					.setButtonText('Add')
+					.onClick(async () => {
+						this.plugin.settings.templates.push({
+							id: Date.now().toString(36),
+							name: 'New template',
+							systemPrompt: '',
+							userPrompt: '{selection}',
+							model: '',
+							temperature: null,
+						});
+						await saveTemplates();
+						this.display();
+					})
+			);
+	}
+
+	displayBudgetSettings(containerEl: HTMLElement): void {
+		containerEl.createEl('h3', { text: '💰 Budget' });
+
+		// 現在の利用状況
+		const { daily, monthly } = this.plugin.getSpending();
+		const { dailyBudget, monthlyBudget } = this.plugin.settings;
+		const statusEl = containerEl.createDiv('chatgpt-budget-status');
+		statusEl.createDiv({
+			text: `今日: $${daily.toFixed(4)}${dailyBudget > 0 ? ` / $${dailyBudget.toFixed(2)}` : ''}`,
+		});
+		statusEl.createDiv({
+			text: `今月: $${monthly.toFixed(4)}${monthlyBudget > 0 ? ` / $${monthlyBudget.toFixed(2)}` : ''}`,
+		});
+
+		const addBudgetSetting = (name: string, desc: string, key: 'monthlyBudget' | 'dailyBudget') => {
+			new Setting(containerEl)
+				.setName(name)
+				.setDesc(desc)
+				.addText((text) =>
+					text
+						.setPlaceholder('0')
+						.setValue(this.plugin.settings[key] ? String(this.plugin.settings[key]) : '')
+						.onChange(async (value) => {
+							const num = parseFloat(value || '0');
+							if (!isNaN(num) && num >= 0) {
+								this.plugin.settings[key] = num;
+								await this.plugin.saveSettings();
+							}
+						})
+				);
+		};
+
+		addBudgetSetting('Monthly Budget (USD)', 'Spending cap for the calendar month. Leave empty or 0 for no limit.', 'monthlyBudget');
+		addBudgetSetting('Daily Budget (USD)', 'Spending cap for the current day. Leave empty or 0 for no limit.', 'dailyBudget');
+
+		new Setting(containerEl)
+			.setName('Warning Threshold')
+			.setDesc('Show a warning once per day/month when this percentage of a budget has been used')
+			.addSlider((slider) =>
+				slider
+					.setLimits(10, 100, 5)
+					.setValue(this.plugin.settings.budgetWarnPercent)
+					.setDynamicTooltip()
+					.onChange(async (value) => {
+						this.plugin.settings.budgetWarnPercent = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName('When the Budget Is Reached')
+			.setDesc('Block further requests, or keep working with the fallback model below')
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOptions(BUDGET_ACTION_LABELS)
+					.setValue(this.plugin.settings.budgetAction)
+					.onChange(async (value) => {
+						this.plugin.settings.budgetAction = value as BudgetAction;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName('Fallback Model')
+			.setDesc('Cheaper model used for chat and text requests once a budget is reached. Embeddings, transcription and image generation are blocked')
+			.addText((text) =>
+				text
+					.setPlaceholder('gpt-4o-mini')
+					.setValue(this.plugin.settings.budgetFallbackModel)
+					.onChange(async (value) => {
+						this.plugin.settings.budgetFallbackModel = value.trim();
+						await this.plugin.saveSettings();
+					})
+			);
+	}
+
+	display(): void {
+		const { containerEl } = this;
+		containerEl.empty();
+
+		containerEl.createEl('h2', { text: 'ChatGPT Integration Settings' });
+
+		// 今月の利用料金セクション
+		this.displayUsageStats(containerEl);
+
+		// プロバイダー選択
+		new Setting(containerEl)
+			.setName('Provider')
+			.setDesc('Backend used for all requests. Endpoint, auth and models are configured per provider below.')
+			.addDropdown((dropdown) => {
+				this.plugin.settings.providers.forEach((provider) => {
+					dropdown.addOption(provider.id, provider.name);
+				});
+				dropdown
+					.setValue(this.plugin.getActiveProvider().id)
+					.onChange(async (value) => {
+						this.plugin.settings.activeProviderId = value;
+						// 選択中のモデルが新しいプロバイダーに無い場合は先頭のモデルに切り替え
+						const provider = this.plugin.getActiveProvider();
+						if (provider.models.length > 0 && !provider.models.includes(this.plugin.settings.model)) {
+							this.plugin.settings.model = provider.models[0];
+						}
+						await this.plugin.saveSettings();
+						this.display(); // モデル一覧を更新
+					});
+			});
+
+		// モデル選択
+		new Setting(containerEl)
+			.setName('Model')
+			.setDesc('Select the model (models are listed per provider; GPT-5 versions have different pricing)')
+			.addDropdown((dropdown) => {
+				const models = this.plugin.getActiveProvider().models;
+				models.forEach((model) => {
+					dropdown.addOption(model, MODEL_LABELS[model] || model);
+				});
+				// 一覧に無いモデルが選択されている場合もそのまま表示する
+				if (!models.includes(this.plugin.settings.model)) {
+					dropdown.addOption(this.plugin.settings.model, MODEL_LABELS[this.plugin.settings.model] || this.plugin.settings.model);
+				}
+				dropdown
+					.setValue(this.plugin.settings.model)
+					.onChange(async (value) => {
+						this.plugin.settings.model = value;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		// APIキーとプロバイダーごとの設定
+		this.displayApiKeySettings(containerEl);
+		this.displayProviderSettings(containerEl);
+
+		// Temperature設定
+		new Setting(containerEl)
+			.setName('Temperature')
+			.setDesc('Controls randomness (0-2). Lower = more focused, Higher = more creative')
+			.addSlider((slider) =>
+				slider
+					.setLimits(0, 2, 0.1)
+					.setValue(this.plugin.settings.temperature)
+					.setDynamicTooltip()
+					.onChange(async (value) => {
+						this.plugin.settings.temperature = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		// Max Tokens設定
+		new Setting(containerEl)
+			.setName('Max Tokens')
+			.setDesc('Maximum length of response')
+			.addText((text) =>
+				text
+					.setPlaceholder('2000')
+					.setValue(String(this.plugin.settings.maxTokens))
+					.onChange(async (value) => {
+						const num = parseInt(value);
+						if (!isNaN(num) && num > 0) {
+							this.plugin.settings.maxTokens = num;
+							await this.plugin.saveSettings();
+						}
+					})
+			);
+
+		// System Prompt設定
+		new Setting(containerEl)
+			.setName('System Prompt')
+			.setDesc('Default instruction for ChatGPT')
+			.addTextArea((text) => {
+				text
+					.setPlaceholder('You are a helpful assistant...')
+					.setValue(this.plugin.settings.systemPrompt)
+					.onChange(async (value) => {
+						this.plugin.settings.systemPrompt = value;
+						await this.plugin.saveSettings();
+					});
+				text.inputEl.rows = 4;
+				text.inputEl.style.width = '100%';
+			});
+
+		// Response Format設定
+		new Setting(containerEl)
+			.setName('Response Format')
+			.setDesc('How to format the response. Use {response} as placeholder.')
+			.addTextArea((text) => {
+				text
+					.setPlaceholder('**ChatGPT:**\n{response}')
+					.setValue(this.plugin.settings.responseFormat)
+					.onChange(async (value) => {
+						this.plugin.settings.responseFormat = value;
+						await this.plugin.saveSettings();
+					});
+				text.inputEl.rows = 3;
+				text.inputEl.style.width = '100%';
+			});
+
+		// 挿入先の設定
+		new Setting(containerEl)
+			.setName('Insert Position (Ask ChatGPT)')
+			.setDesc('Where "Ask ChatGPT about selected text" writes the answer. Templates can override this.')
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOptions(INSERTION_MODE_LABELS)
+					.setValue(this.plugin.settings.askInsertionMode)
+					.onChange(async (value) => {
+						this.plugin.settings.askInsertionMode = value as InsertionMode;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName('Insert Position (Chat)')
+			.setDesc('Where the chat\'s insert button writes the conversation. Also selectable next to the button.')
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOptions(INSERTION_MODE_LABELS)
+					.setValue(this.plugin.settings.chatInsertionMode)
+					.onChange(async (value) => {
+						this.plugin.settings.chatInsertionMode = value as InsertionMode;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName('Insert Heading')
+			.setDesc('Heading used by "Append under heading" (created at the end of the note if missing)')
+			.addText((text) =>
+				text
+					.setPlaceholder('ChatGPT')
+					.setValue(this.plugin.settings.insertionHeading)
+					.onChange(async (value) => {
+						this.plugin.settings.insertionHeading = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		// コンテキストの設定
+		containerEl.createEl('h3', { text: '📄 Note Context' });
+
+		(Object.keys(CONTEXT_SOURCE_LABELS) as Array<keyof ContextSources>).forEach((key) => {
+			new Setting(containerEl)
+				.setName(CONTEXT_SOURCE_LABELS[key])
+				.setDesc('Send by default along with the selection (can be toggled per chat in the context area)')
+				.addToggle((toggle) =>
+					toggle
+						.setValue(this.plugin.settings.contextSources[key])
+						.onChange(async (value) => {
+							this.plugin.settings.contextSources[key] = value;
+							await this.plugin.saveSettings();
+						})
+				);
+		});
+
+		new Setting(containerEl)
+			.setName('Context Token Budget')
+			.setDesc('Approximate maximum tokens of context. Lower-priority sources (backlinks, then links) are trimmed first.')
+			.addText((text) =>
+				text
+					.setPlaceholder('4000')
+					.setValue(String(this.plugin.settings.contextTokenBudget))
+					.onChange(async (value) => {
+						const num = parseInt(value);
+						if (!isNaN(num) && num > 0) {
+							this.plugin.settings.contextTokenBudget = num;
+							await this.plugin.saveSettings();
+						}
+					})
+			);
+
+		// vaultのインデックス（Ask the vault用）
+		containerEl.createEl('h3', { text: '🔎 Vault Index' });
+
+		new Setting(containerEl)
+			.setName('Enable Vault Index')
+			.setDesc('Index your notes with embeddings so "Ask the vault" can answer from the most relevant passages. Changed notes are re-indexed automatically.')
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.vaultIndexEnabled)
+					.onChange(async (value) => {
+						this.plugin.settings.vaultIndexEnabled = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName('Embedding Endpoint')
+			.setDesc('OpenAI-compatible embeddings URL. Leave empty to use the active provider (e.g. .../v1/responses → .../v1/embeddings). Required for Anthropic.')
+			.addText((text) =>
+				text
+					.setPlaceholder('https://api.openai.com/v1/embeddings')
+					.setValue(this.plugin.settings.embeddingEndpoint)
+					.onChange(async (value) => {
+						this.plugin.settings.embeddingEndpoint = value.trim();
+						await this.plugin.saveSettings();
+					})
+			);
 
-			Object.entries(modelStats).forEach(([model, stats]) => {
-				const row = table.createEl('tr');
-				row.innerHTML = `
-					<td style="padding: 8px;">${model}</td>
-					<td style="text-align: right; padding: 8px;">${stats.count}</td>
-					<td style="text-align: right; padding: 8px;">${stats.tokens.toLocaleString()}</td>
-					<td style="text-align: right; padding: 8px;">$${stats.cost.toFixed(4)}</td>
-				`;
-			});
-		}
+		new Setting(containerEl)
+			.setName('Embedding Model')
+			.setDesc('Changing the model rebuilds the index on the next update')
+			.addText((text) =>
+				text
+					.setPlaceholder('text-embedding-3-small')
+					.setValue(this.plugin.settings.embeddingModel)
+					.onChange(async (value) => {
+						this.plugin.settings.embeddingModel = value.trim() || DEFAULT_SETTINGS.embeddingModel;
+						await this.plugin.saveSettings();
+					})
+			);
 
-		// リセットボタン
-		new Setting(usageSection)
-			.setName('利用履歴をリセット')
-			.setDesc('今月のデータを削除します（元に戻せません）')
+		new Setting(containerEl)
+			.setName('Passages per Question')
+			.setDesc('Number of most similar passages sent as context')
+			.addSlider((slider) =>
+				slider
+					.setLimits(1, 20, 1)
+					.setValue(this.plugin.settings.vaultSearchTopK)
+					.setDynamicTooltip()
+					.onChange(async (value) => {
+						this.plugin.settings.vaultSearchTopK = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		const indexSetting = new Setting(containerEl)
+			.setName('Index Status')
+			.setDesc('Loading...')
 			.addButton((button) =>
 				button
-					.setButtonText('リセット')
-					.setWarning()
+					.setButtonText('Update')
 					.onClick(async () => {
-						// 今月以外のデータを残す
-						this.plugin.settings.usageHistory = this.plugin.settings.usageHistory.filter(
-							(record) => {
-								const recordDate = new Date(record.date);
-								return (
-									recordDate.getMonth() !== currentMonth ||
-									recordDate.getFullYear() !== currentYear
-								);
-							}
-						);
-						await this.plugin.saveSettings();
-						new Notice('利用履歴をリセットしました');
-						this.display(); // 画面を再描画
+						await this.plugin.updateVaultIndex(false);
+						this.display();
+					})
+			)
+			.addButton((button) =>
+				button
+					.setButtonText('Rebuild')
+					.onClick(async () => {
+						await this.plugin.updateVaultIndex(true);
+						this.display();
 					})
 			);
+		this.plugin.vaultIndex.getStats().then(({ files, chunks }) => {
+			indexSetting.setDesc(`${files} notes, ${chunks} passages indexed`);
+		});
 
-		// 区切り線
-		containerEl.createEl('hr', { attr: { style: 'margin: 20px 0;' } });
-	}
-
-	display(): void {
-		const { containerEl } = this;
-		containerEl.empty();
-
-		containerEl.createEl('h2', { text: 'ChatGPT Integration Settings' });
+		// 画像生成
+		containerEl.createEl('h3', { text: '🎨 Image Generation' });
 
-		// 今月の利用料金セクション
-		this.displayUsageStats(containerEl);
+		new Setting(containerEl)
+			.setName('Image Endpoint')
+			.setDesc('OpenAI-compatible image generation URL. Leave empty to use the active provider (e.g. .../v1/responses → .../v1/images/generations). Required for Anthropic.')
+			.addText((text) =>
+				text
+					.setPlaceholder('https://api.openai.com/v1/images/generations')
+					.setValue(this.plugin.settings.imageEndpoint)
+					.onChange(async (value) => {
+						this.plugin.settings.imageEndpoint = value.trim();
+						await this.plugin.saveSettings();
+					})
+			);
 
-		// APIキー設定
 		new Setting(containerEl)
-			.setName('OpenAI API Key')
-			.setDesc('Enter your OpenAI API key (get it from platform.openai.com)')
+			.setName('Image Model')
+			.setDesc('gpt-image-1, gpt-image-1-mini, dall-e-3 or dall-e-2')
 			.addText((text) =>
 				text
-					.setPlaceholder('sk-...')
-					.setValue(this.plugin.settings.apiKey)
+					.setPlaceholder('gpt-image-1')
+					.setValue(this.plugin.settings.imageModel)
 					.onChange(async (value) => {
-						this.plugin.settings.apiKey = value;
+						this.plugin.settings.imageModel = value.trim() || DEFAULT_SETTINGS.imageModel;
 						await this.plugin.saveSettings();
 					})
 			);
 
-		// モデル選択
 		new Setting(containerEl)
-			.setName('Model')
-			.setDesc('Select ChatGPT model (GPT-5 versions have different pricing)')
+			.setName('Default Size and Quality')
+			.setDesc('Preselected in the "Generate image" dialog')
 			.addDropdown((dropdown) =>
 				dropdown
-					.addOption('gpt-5.2', 'GPT-5.2 (Latest, Most Capable, $1.75/1M in)')
-					.addOption('gpt-5.1', 'GPT-5.1 (Balanced)')
-					.addOption('gpt-5', 'GPT-5 (Original)')
-					.addOption('gpt-5-mini', 'GPT-5 Mini (Fast, $0.25/1M in)')
-					.addOption('gpt-5-nano', 'GPT-5 Nano (Fastest, Cheapest)')
-					.addOption('gpt-4o', 'GPT-4o')
-					.addOption('gpt-4o-mini', 'GPT-4o Mini')
-					.addOption('gpt-4-turbo', 'GPT-4 Turbo')
-					.addOption('gpt-4', 'GPT-4')
-					.addOption('gpt-3.5-turbo', 'GPT-3.5 Turbo')
-					.setValue(this.plugin.settings.model)
+					.addOptions(IMAGE_SIZE_LABELS)
+					.setValue(this.plugin.settings.imageSize)
 					.onChange(async (value) => {
-						this.plugin.settings.model = value;
+						this.plugin.settings.imageSize = value;
+						await this.plugin.saveSettings();
+					})
+			)
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOptions(IMAGE_QUALITY_LABELS)
+					.setValue(this.plugin.settings.imageQuality)
+					.onChange(async (value) => {
+						this.plugin.settings.imageQuality = value;
 						await this.plugin.saveSettings();
 					})
 			);
 
-		// Temperature設定
 		new Setting(containerEl)
-			.setName('Temperature')
-			.setDesc('Controls randomness (0-2). Lower = more focused, Higher = more creative')
-			.addSlider((slider) =>
-				slider
-					.setLimits(0, 2, 0.1)
-					.setValue(this.plugin.settings.temperature)
-					.setDynamicTooltip()
+			.setName('Image Folder')
+			.setDesc('Folder for generated images and their prompt notes. Leave empty to follow Obsidian\'s attachment settings.')
+			.addText((text) =>
+				text
+					.setPlaceholder('Attachments/ChatGPT')
+					.setValue(this.plugin.settings.imageFolder)
 					.onChange(async (value) => {
-						this.plugin.settings.temperature = value;
+						this.plugin.settings.imageFolder = value.trim();
 						await this.plugin.saveSettings();
 					})
 			);
 
-		// Max Tokens設定
+		// 音声の文字起こし
+		containerEl.createEl('h3', { text: '🎙️ Transcription' });
+
 		new Setting(containerEl)
-			.setName('Max Tokens')
-			.setDesc('Maximum length of response')
+			.setName('Transcription Endpoint')
+			.setDesc('OpenAI-compatible transcription URL. Leave empty to use the active provider (e.g. .../v1/responses → .../v1/audio/transcriptions). Required for Anthropic.')
 			.addText((text) =>
 				text
-					.setPlaceholder('2000')
-					.setValue(String(this.plugin.settings.maxTokens))
+					.setPlaceholder('https://api.openai.com/v1/audio/transcriptions')
+					.setValue(this.plugin.settings.transcriptionEndpoint)
 					.onChange(async (value) => {
-						const num = parseInt(value);
-						if (!isNaN(num) && num > 0) {
-							this.plugin.settings.maxTokens = num;
-							await this.plugin.saveSettings();
-						}
+						this.plugin.settings.transcriptionEndpoint = value.trim();
+						await this.plugin.saveSettings();
 					})
 			);
 
-		// System Prompt設定
 		new Setting(containerEl)
-			.setName('System Prompt')
-			.setDesc('Default instruction for ChatGPT')
-			.addTextArea((text) => {
+			.setName('Transcription Model')
+			.setDesc('gpt-4o-mini-transcribe, gpt-4o-transcribe or whisper-1')
+			.addText((text) =>
 				text
-					.setPlaceholder('You are a helpful assistant...')
-					.setValue(this.plugin.settings.systemPrompt)
+					.setPlaceholder('gpt-4o-mini-transcribe')
+					.setValue(this.plugin.settings.transcriptionModel)
 					.onChange(async (value) => {
-						this.plugin.settings.systemPrompt = value;
+						this.plugin.settings.transcriptionModel = value.trim() || DEFAULT_SETTINGS.transcriptionModel;
 						await this.plugin.saveSettings();
-					});
-				text.inputEl.rows = 4;
-				text.inputEl.style.width = '100%';
-			});
+					})
+			);
 
-		// Response Format設定
 		new Setting(containerEl)
-			.setName('Response Format')
-			.setDesc('How to format the response. Use {response} as placeholder.')
-			.addTextArea((text) => {
+			.setName('Language')
+			.setDesc('Two-letter language code of the recordings (e.g. ja, en). Leave empty to detect automatically.')
+			.addText((text) =>
 				text
-					.setPlaceholder('**ChatGPT:**\n{response}')
-					.setValue(this.plugin.settings.responseFormat)
+					.setPlaceholder('auto')
+					.setValue(this.plugin.settings.transcriptionLanguage)
 					.onChange(async (value) => {
-						this.plugin.settings.responseFormat = value;
+						this.plugin.settings.transcriptionLanguage = value.trim().toLowerCase();
 						await this.plugin.saveSettings();
-					});
-				text.inputEl.rows = 3;
-				text.inputEl.style.width = '100%';
-			});
+					})
+			);
+
+		new Setting(containerEl)
+			.setName('After Transcribing')
+			.setDesc('Optionally send the transcript to the chat model for a cleaned-up summary or a task list, inserted below the transcript')
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOptions(TRANSCRIPT_FOLLOW_UP_LABELS)
+					.setValue(this.plugin.settings.transcriptFollowUp)
+					.onChange(async (value) => {
+						this.plugin.settings.transcriptFollowUp = value as TranscriptFollowUp;
+						await this.plugin.saveSettings();
+					})
+			);
 
 		// デバッグモード設定
 		new Setting(containerEl)
 			.setName('🐛 Debug Mode')
-			.setDesc('Show debug logs as notices on screen. Logs are always saved to console and can be exported to chatgpt_debug_logs.txt')
+			.setDesc('Show debug logs as notices on screen and add a request trace button to the chat. Logs always go to the developer console')
 			.addToggle((toggle) =>
 				toggle
 					.setValue(this.plugin.settings.debugMode)
@@ -1195,6 +9197,86 @@ class ChatGPTSettingTab extends PluginSettingTab {
 					})
 			);
 
+		new Setting(containerEl)
+			.setName('📋 Log Level')
+			.setDesc('Only record messages at this level or above')
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOptions(LOG_LEVEL_LABELS)
+					.setValue(this.plugin.settings.logLevel)
+					.onChange(async (value) => {
+						this.plugin.settings.logLevel = value as LogLevel;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName('🙈 Redact Prompt Content')
+			.setDesc('Replace prompts, note text and responses with their length in logs, request traces and debug reports. API keys are always removed')
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.redactPrompts)
+					.onChange(async (value) => {
+						this.plugin.settings.redactPrompts = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName('💾 Log to File')
+			.setDesc('Append logs to chatgpt-debug.log in the log folder. The file is rotated when it gets too large, keeping two older files')
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.logToFile)
+					.onChange(async (value) => {
+						this.plugin.settings.logToFile = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName('📁 Log Folder')
+			.setDesc('Folder for the log file and exported debug reports')
+			.addText((text) =>
+				text
+					.setPlaceholder('ChatGPT Logs')
+					.setValue(this.plugin.settings.logFolder)
+					.onChange(async (value) => {
+						this.plugin.settings.logFolder = value.trim();
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName('📏 Max Log Size')
+			.setDesc('Kilobytes before the log file is rotated')
+			.addText((text) =>
+				text
+					.setPlaceholder('512')
+					.setValue(String(this.plugin.settings.logFileMaxKB))
+					.onChange(async (value) => {
+						const num = parseInt(value);
+						if (!isNaN(num) && num > 0) {
+							this.plugin.settings.logFileMaxKB = num;
+							await this.plugin.saveSettings();
+						}
+					})
+			);
+
+		new Setting(containerEl)
+			.setName('🔍 API Request Traces')
+			.setDesc('Review recent requests with model, status, latency and tokens, or save a debug report to attach to a bug report')
+			.addButton((button) =>
+				button
+					.setButtonText('Show traces')
+					.onClick(() => new TraceViewModal(this.app, this.plugin).open())
+			)
+			.addButton((button) =>
+				button
+					.setButtonText('Export report')
+					.onClick(() => this.plugin.debugLogger.exportReport())
+			);
+
 		// Web検索設定
 		new Setting(containerEl)
 			.setName('🌐 Web Search')
@@ -1209,6 +9291,121 @@ class ChatGPTSettingTab extends PluginSettingTab {
 					})
 			);
 
+		// ストリーミング設定
+		new Setting(containerEl)
+			.setName('⚡ Stream Responses')
+			.setDesc('Show the response token-by-token as it is generated. A Stop button lets you cancel and keep the text received so far.')
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.streamResponses)
+					.onChange(async (value) => {
+						this.plugin.settings.streamResponses = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		// 画像入力の設定
+		new Setting(containerEl)
+			.setName('🖼️ Send Images')
+			.setDesc('Send images embedded in the selection or note context, and images pasted or dropped into the chat, to vision-capable models. Other models receive the text only.')
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.sendImages)
+					.onChange(async (value) => {
+						this.plugin.settings.sendImages = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		// リクエストのタイムアウトと再試行
+		new Setting(containerEl)
+			.setName('⏱️ Request Timeout')
+			.setDesc('Seconds to wait for a response before giving up (for streaming, until the response starts and between parts of the response)')
+			.addText((text) =>
+				text
+					.setPlaceholder('60')
+					.setValue(String(this.plugin.settings.requestTimeout))
+					.onChange(async (value) => {
+						const num = parseInt(value);
+						if (!isNaN(num) && num > 0) {
+							this.plugin.settings.requestTimeout = num;
+							await this.plugin.saveSettings();
+						}
+					})
+			);
+
+		new Setting(containerEl)
+			.setName('🔁 Retries')
+			.setDesc('How many times to retry rate limits, server errors, timeouts and network drops (with exponential backoff, honouring Retry-After up to 60 seconds)')
+			.addSlider((slider) =>
+				slider
+					.setLimits(0, 6, 1)
+					.setValue(this.plugin.settings.maxRetries)
+					.setDynamicTooltip()
+					.onChange(async (value) => {
+						this.plugin.settings.maxRetries = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		// チャットの表示場所
+		new Setting(containerEl)
+			.setName('📌 Chat in Sidebar')
+			.setDesc('On desktop, open interactive chats in a dockable right-sidebar panel that follows the active note. Mobile always uses the modal.')
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.chatInSidebar)
+					.onChange(async (value) => {
+						this.plugin.settings.chatInSidebar = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		// チャットで使えるツール
+		new Setting(containerEl)
+			.setName('🧰 Vault Tools in Chat')
+			.setDesc('Let the model search, read and list your notes during a chat, and propose creating notes, appending to notes and adding tasks. Changes are only made after you approve them in the chat. Requires a provider using the Responses API.')
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.chatTools)
+					.onChange(async (value) => {
+						this.plugin.settings.chatTools = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		// 会話の保存設定
+		new Setting(containerEl)
+			.setName('💾 Save Conversations')
+			.setDesc('Automatically save each interactive chat as a note (with model, source note, timestamps and token totals) so it can be resumed later.')
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.autoSaveChats)
+					.onChange(async (value) => {
+						this.plugin.settings.autoSaveChats = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName('Conversation Folder')
+			.setDesc('Folder where conversation notes are saved')
+			.addText((text) =>
+				text
+					.setPlaceholder('ChatGPT Chats')
+					.setValue(this.plugin.settings.chatFolder)
+					.onChange(async (value) => {
+						this.plugin.settings.chatFolder = value.trim();
+						await this.plugin.saveSettings();
+					})
+			);
+
+		// プロンプトテンプレート
+		this.displayTemplateSettings(containerEl);
+
+		// 料金表
+		this.displayPricingSettings(containerEl);
+
 		// 使い方の説明
 		containerEl.createEl('h3', { text: 'How to use' });
 		const usageEl = containerEl.createEl('div');
@@ -1222,6 +9419,14 @@ class ChatGPTSettingTab extends PluginSettingTab {
 			<ul>
 				<li><strong>Ask ChatGPT about selected text</strong>: Ask a general question about the selected text</li>
 				<li><strong>Ask ChatGPT with custom prompt</strong>: Specify your own question or instruction</li>
+				<li><strong>Template: &lt;name&gt;</strong>: Run a prompt template on the selection (also in the editor menu)</li>
+				<li><strong>Open ChatGPT chat panel</strong>: Chat in the right sidebar while you scroll and select in the note</li>
+				<li><strong>Resume ChatGPT conversation</strong>: Reopen a saved conversation note and continue chatting</li>
+				<li><strong>Generate image from selection/prompt</strong>: Create an image, save it to the vault and embed it at the cursor</li>
+				<li><strong>Rewrite selection (review changes)</strong>: Get a revised version of the selection and accept or reject each change</li>
+				<li><strong>Run template on multiple notes</strong>: Apply a template to every note in a folder, tag or search result</li>
+				<li><strong>Enrich note metadata</strong>: Add a summary, tags, aliases and a category to the frontmatter after a preview</li>
+				<li><strong>Transcribe audio in this note</strong>: Insert a transcript below an embedded recording (also in the file menu of audio files)</li>
 			</ul>
 		`;
 	}